@@ -6,6 +6,7 @@
  * 1. 定义响应数据的接口
  * 2. 使用泛型指定响应类型
  * 3. 获得完整的类型提示和检查
+ * 4. 使用 schema 在运行时校验响应数据，并从 schema 推断类型
  * 
  * 运行方法：
  * ```bash
@@ -20,7 +21,10 @@
 
 // 导入 ofetch 函数
 // @ts-ignore
-import { ofetch } from "ofetch";
+import { ofetch, SchemaValidationError } from "ofetch";
+// 任何实现了 Standard Schema 的校验库都可以使用，例如 zod、valibot、arktype
+// @ts-ignore
+import { z } from "zod";
 
 /**
  * 定义仓库信息的接口
@@ -50,6 +54,7 @@ interface Repo {
  */
 async function main() {
   // 发送请求并指定响应类型
+  // 泛型只是类型断言，不会检查服务器实际返回的数据
   const { repo } = await ofetch<{ repo: Repo }>(
     "https://ungh.cc/repos/unjs/ofetch"
   );
@@ -58,6 +63,43 @@ async function main() {
   console.log(`The repo ${repo.name} has ${repo.stars} stars.`);
 }
 
+/**
+ * 响应数据的 schema
+ * 与 Repo 接口描述的是同一个结构，但会在运行时校验
+ */
+const RepoResponseSchema = z.object({
+  repo: z.object({
+    id: z.number(),
+    name: z.string(),
+    repo: z.string(),
+    description: z.string(),
+    stars: z.number(),
+  }),
+});
+
+/**
+ * 使用 schema 的主函数
+ *
+ * 这个函数展示了：
+ * 1. 不需要手动指定泛型，返回值的类型从 schema 推断
+ * 2. 响应数据与 schema 不一致时，以 SchemaValidationError 失败
+ */
+async function mainWithSchema() {
+  try {
+    const { repo } = await ofetch("https://ungh.cc/repos/unjs/ofetch", {
+      schema: RepoResponseSchema,
+    });
+    console.log(`The repo ${repo.name} has ${repo.stars} stars.`);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      // issues 中是校验库返回的问题列表
+      console.error("Unexpected API response:", error.issues);
+      return;
+    }
+    throw error;
+  }
+}
+
 // 运行主函数并处理错误
 // eslint-disable-next-line unicorn/prefer-top-level-await
-main().catch(console.error);
+main().then(mainWithSchema).catch(console.error);
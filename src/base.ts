@@ -1,2 +1,7 @@
 export * from "./fetch";
 export * from "./error";
+export * from "./retry";
+export * from "./circuit-breaker";
+export * from "./rate-limit";
+export * from "./cache";
+export * from "./form-data";
@@ -0,0 +1,683 @@
+/**
+ * src/cache.ts
+ *
+ * 这个文件实现了按照 RFC 9111 缓存 HTTP 响应的功能。
+ * 主要包括：
+ * 1. 根据 Cache-Control、Expires 和 Vary 判断响应是否可以保存和复用
+ * 2. 缓存过期后使用 If-None-Match / If-Modified-Since 重新验证
+ * 3. 收到 304 响应时，返回缓存中的响应体
+ * 4. 可替换的缓存存储（内存、LRU 或自定义存储）
+ *
+ * 缓存是对底层 fetch 函数的包装，所以重试、超时、对冲请求等功能都不需要额外处理。
+ *
+ * 参考：https://www.rfc-editor.org/rfc/rfc9111
+ */
+
+import { isReadableStream } from "./stream";
+import type {
+  CachedResponse,
+  CacheOptions,
+  Fetch,
+  FetchCacheStorage,
+} from "./types";
+
+/**
+ * 默认可以缓存的响应状态码（可以使用启发式过期时间的状态码）
+ *
+ * 参考：https://www.rfc-editor.org/rfc/rfc9110#section-15.1
+ */
+const cacheableStatusCodes = new Set([
+  200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501,
+]);
+
+/**
+ * 重新验证时不应该用 304 响应覆盖的响应头
+ */
+const contentHeaders = new Set([
+  "content-length",
+  "content-encoding",
+  "content-type",
+  "transfer-encoding",
+]);
+
+/**
+ * 创建内存缓存存储
+ *
+ * @returns 使用 Map 保存响应的存储，没有数量限制
+ */
+export function createMemoryCacheStorage(): FetchCacheStorage {
+  return new Map<string, CachedResponse>();
+}
+
+/**
+ * 创建内存 LRU 缓存存储
+ *
+ * 超过 max 个响应时，会删除最久没有被读取的响应
+ *
+ * @param options.max 最多保存的响应数量，默认 1000
+ * @returns LRU 缓存存储
+ *
+ * @example
+ * ```typescript
+ * const api = ofetch.create({}, {
+ *   cache: { storage: createLRUCacheStorage({ max: 100 }) },
+ * });
+ * ```
+ */
+export function createLRUCacheStorage(
+  options: { max?: number } = {}
+): FetchCacheStorage {
+  const max = options.max ?? 1000;
+  const entries = new Map<string, CachedResponse>();
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // 重新插入，移动到最近使用的位置
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > max) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * 解析 Cache-Control 头
+ *
+ * @param header Cache-Control 头的值
+ * @returns 指令对象，没有值的指令为 true
+ *
+ * @example
+ * ```typescript
+ * parseCacheControl("public, max-age=60") // { public: true, "max-age": "60" }
+ * ```
+ */
+export function parseCacheControl(
+  header: string | null | undefined
+): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  for (const part of (header || "").split(",")) {
+    const [name, ...value] = part.split("=");
+    const key = name.trim().toLowerCase();
+    if (key) {
+      directives[key] =
+        value.length > 0 ? value.join("=").trim().replace(/^"|"$/g, "") : true;
+    }
+  }
+  return directives;
+}
+
+/**
+ * 读取 Cache-Control 指令中的秒数
+ */
+function getSeconds(
+  directives: Record<string, string | true>,
+  name: string
+): number | undefined {
+  const value = directives[name];
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const seconds = Number.parseInt(value, 10);
+  return Number.isNaN(seconds) ? undefined : seconds;
+}
+
+/**
+ * 计算缓存响应的新鲜期（毫秒）
+ *
+ * 按顺序使用 s-maxage（仅共享缓存）、max-age、Expires，
+ * 都没有时，根据 Last-Modified 使用启发式的新鲜期（距离上次修改时间的 10%）
+ *
+ * @param entry 缓存的响应
+ * @param shared 是否是共享缓存
+ * @returns 新鲜期（毫秒）
+ */
+export function getFreshnessLifetime(
+  entry: CachedResponse,
+  shared = false
+): number {
+  const headers = new Map(entry.headers);
+  const directives = parseCacheControl(headers.get("cache-control"));
+
+  if (directives["no-cache"]) {
+    return 0;
+  }
+
+  const sMaxAge = shared ? getSeconds(directives, "s-maxage") : undefined;
+  if (sMaxAge !== undefined) {
+    return sMaxAge * 1000;
+  }
+
+  const maxAge = getSeconds(directives, "max-age");
+  if (maxAge !== undefined) {
+    return maxAge * 1000;
+  }
+
+  const date = Date.parse(headers.get("date") || "") || entry.responseTime;
+  const expires = headers.get("expires");
+  if (expires) {
+    // 无效的 Expires（例如 "0"）表示已经过期
+    const expiresTime = Date.parse(expires);
+    return Number.isNaN(expiresTime) ? 0 : Math.max(0, expiresTime - date);
+  }
+
+  const lastModified = Date.parse(headers.get("last-modified") || "");
+  if (!Number.isNaN(lastModified) && lastModified < date) {
+    return (date - lastModified) / 10;
+  }
+
+  return 0;
+}
+
+/**
+ * 计算缓存响应当前的年龄（毫秒）
+ *
+ * 参考：https://www.rfc-editor.org/rfc/rfc9111#section-4.2.3
+ *
+ * @param entry 缓存的响应
+ * @param now 当前时间
+ * @returns 年龄（毫秒）
+ */
+export function getCurrentAge(entry: CachedResponse, now = Date.now()): number {
+  const headers = new Map(entry.headers);
+  const date = Date.parse(headers.get("date") || "") || entry.responseTime;
+  const apparentAge = Math.max(0, entry.responseTime - date);
+  const ageValue = (Number(headers.get("age")) || 0) * 1000;
+  const correctedAge = ageValue + (entry.responseTime - entry.requestTime);
+  return Math.max(apparentAge, correctedAge) + (now - entry.responseTime);
+}
+
+/**
+ * 检查缓存的响应是否满足请求的 Vary 条件
+ */
+function matchesVary(entry: CachedResponse, headers: Headers): boolean {
+  for (const [name, value] of Object.entries(entry.varyHeaders)) {
+    if (headers.get(name) !== value) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 检查响应是否可以保存到缓存中
+ */
+function isStorable(
+  response: Response,
+  requestHeaders: Headers,
+  requestDirectives: Record<string, string | true>,
+  shared: boolean
+): boolean {
+  if (!cacheableStatusCodes.has(response.status)) {
+    return false;
+  }
+
+  const directives = parseCacheControl(response.headers.get("cache-control"));
+  if (directives["no-store"] || requestDirectives["no-store"]) {
+    return false;
+  }
+  if (response.headers.get("vary")?.trim() === "*") {
+    return false;
+  }
+
+  if (shared) {
+    if (directives.private) {
+      return false;
+    }
+    // 共享缓存只有在响应明确允许时才能保存带有身份验证的请求
+    if (
+      requestHeaders.has("authorization") &&
+      !directives.public &&
+      !directives["s-maxage"] &&
+      !directives["must-revalidate"]
+    ) {
+      return false;
+    }
+  }
+
+  // 没有过期时间也没有验证器的响应无法复用
+  return Boolean(
+    directives["max-age"] ||
+      (shared && directives["s-maxage"]) ||
+      directives.public ||
+      response.headers.has("expires") ||
+      response.headers.has("etag") ||
+      response.headers.has("last-modified")
+  );
+}
+/**
+ * 计算缓存过期后还可以使用过期响应的时间（毫秒）
+ *
+ * 响应的指令（stale-while-revalidate 或 stale-if-error）优先于配置，
+ * 响应要求必须重新验证（must-revalidate、no-cache）时不使用配置
+ *
+ * @param entry 缓存的响应
+ * @param directive 指令名称
+ * @param fallback 响应没有指令时使用的时间（毫秒）
+ * @param shared 是否是共享缓存
+ * @returns 可以使用过期响应的时间（毫秒）
+ */
+function getStaleWindow(
+  entry: CachedResponse,
+  directive: "stale-while-revalidate" | "stale-if-error",
+  fallback: number,
+  shared: boolean
+): number {
+  const directives = parseCacheControl(
+    new Map(entry.headers).get("cache-control")
+  );
+  const seconds = getSeconds(directives, directive);
+  if (seconds !== undefined) {
+    return seconds * 1000;
+  }
+  if (
+    directives["must-revalidate"] ||
+    directives["no-cache"] ||
+    (shared && directives["proxy-revalidate"])
+  ) {
+    return 0;
+  }
+  return fallback;
+}
+
+/**
+ * 从缓存的响应创建 Response 对象
+ */
+function toResponse(entry: CachedResponse): Response {
+  const headers = new Headers(entry.headers);
+  headers.set("age", String(Math.floor(getCurrentAge(entry) / 1000)));
+  const response = new Response(
+    entry.status === 204 ? undefined : (entry.body as BodyInit),
+    { status: entry.status, statusText: entry.statusText, headers }
+  );
+  Object.defineProperty(response, "url", { value: entry.url });
+  return response;
+}
+
+/**
+ * 读取流中的全部数据
+ * 流被取消时读取会提前结束，返回的数据是不完整的
+ */
+async function readAll(
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): Promise<ArrayBuffer> {
+  const chunks: Uint8Array[] = [];
+  let result = await reader.read();
+  while (!result.done) {
+    chunks.push(result.value);
+    result = await reader.read();
+  }
+  return new Blob(chunks).arrayBuffer();
+}
+
+/**
+ * 带有 HTTP 缓存的 fetch 函数
+ */
+export type CacheFetch = Fetch & {
+  /**
+   * 查找请求失败时可以代替错误返回的过期响应（stale-if-error）
+   *
+   * @returns 过期响应，没有可用的缓存时返回 undefined
+   */
+  matchStale(
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response | undefined>;
+
+  /**
+   * 获取过期响应（stale-while-revalidate）对应的后台重新验证
+   *
+   * @param response cacheFetch 返回的响应
+   * @returns 重新验证得到的响应，响应不是过期响应时返回 undefined
+   */
+  getRevalidation(response: Response): Promise<Response> | undefined;
+};
+
+/**
+ * 创建带有 HTTP 缓存的 fetch 函数
+ *
+ * 1. GET 请求：缓存新鲜时直接返回缓存；过期时带上验证器重新请求，
+ *    收到 304 时更新缓存的响应头并返回缓存的响应
+ * 2. 过期时间在 stale-while-revalidate 范围内时，直接返回过期响应，并在后台重新验证
+ * 3. 其他请求：成功后删除同一个 URL 的缓存
+ *
+ * 支持请求的 Cache-Control（no-store、no-cache、max-age、min-fresh）
+ * 以及 RequestInit 的 cache 模式（no-store、reload、no-cache、force-cache）
+ *
+ * @param fetch 底层的 fetch 函数
+ * @param options 缓存配置
+ * @param Headers Headers 类
+ * @returns 带有缓存的 fetch 函数
+ */
+export function createCacheFetch(
+  fetch: Fetch,
+  options: CacheOptions,
+  Headers: typeof globalThis.Headers
+): CacheFetch {
+  const storage = options.storage || createLRUCacheStorage();
+  const shared = options.shared ?? false;
+
+  // 进行中的后台重新验证，同一个 URL 同时只重新验证一次
+  const pendingRevalidations = new Map<string, Promise<Response>>();
+
+  // 返回的过期响应与它们对应的后台重新验证
+  const revalidations = new WeakMap<Response, Promise<Response>>();
+
+  /**
+   * 解析请求的 URL、方法和请求头
+   */
+  function parseRequest(input: RequestInfo | URL, init: RequestInit) {
+    const request = input as Request;
+    return {
+      url: typeof input === "string" ? input : String(request.url),
+      method: (init.method || request.method || "GET").toUpperCase(),
+      headers: new Headers(init.headers ?? request.headers),
+    };
+  }
+
+  /**
+   * 读取可以用于这个请求的缓存（满足 Vary 条件）
+   */
+  async function match(
+    url: string,
+    headers: Headers
+  ): Promise<CachedResponse | undefined> {
+    const entry = await storage.get(url);
+    return entry && matchesVary(entry, headers) ? entry : undefined;
+  }
+
+  /**
+   * 发送请求并保存响应
+   * 有缓存时带上验证器，收到 304 时更新缓存并返回缓存的响应
+   *
+   * @param onStored 响应体保存完成（或无法保存）时调用
+   */
+  async function load(
+    input: RequestInfo | URL,
+    init: RequestInit,
+    url: string,
+    headers: Headers,
+    entry: CachedResponse | undefined,
+    onStored?: () => void
+  ): Promise<Response> {
+    // 带上验证器重新验证，用户自己设置了条件请求头时不处理
+    let revalidating = false;
+    if (entry) {
+      const entryHeaders = new Map(entry.headers);
+      const etag = entryHeaders.get("etag");
+      const lastModified = entryHeaders.get("last-modified");
+      if (
+        (etag || lastModified) &&
+        !headers.has("if-none-match") &&
+        !headers.has("if-modified-since")
+      ) {
+        headers = new Headers(headers);
+        if (etag) {
+          headers.set("if-none-match", etag);
+        }
+        if (lastModified) {
+          headers.set("if-modified-since", lastModified);
+        }
+        init = { ...init, headers };
+        revalidating = true;
+      }
+    }
+
+    const requestTime = Date.now();
+    const response = await fetch(input, init);
+    const responseTime = Date.now();
+
+    // 重新验证成功，使用 304 响应的头更新缓存
+    if (entry && revalidating && response.status === 304) {
+      const updatedHeaders = new Map(entry.headers);
+      for (const [name, value] of response.headers) {
+        if (!contentHeaders.has(name)) {
+          updatedHeaders.set(name, value);
+        }
+      }
+      const updated: CachedResponse = {
+        ...entry,
+        headers: [...updatedHeaders],
+        requestTime,
+        responseTime,
+      };
+      await storage.set(url, updated);
+      onStored?.();
+      return toResponse(updated);
+    }
+
+    const requestDirectives = parseCacheControl(headers.get("cache-control"));
+    if (
+      !isStorable(response, headers, requestDirectives, shared) ||
+      (response.body && !isReadableStream(response.body))
+    ) {
+      onStored?.();
+      return response;
+    }
+
+    // 记录 Vary 中列出的请求头
+    const varyHeaders: CachedResponse["varyHeaders"] = {};
+    for (const name of (response.headers.get("vary") || "").split(",")) {
+      const key = name.trim().toLowerCase();
+      if (key) {
+        varyHeaders[key] = headers.get(key);
+      }
+    }
+
+    const store = (body: ArrayBuffer) =>
+      storage.set(url, {
+        url: response.url || url,
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers],
+        body: new Uint8Array(body),
+        varyHeaders,
+        requestTime,
+        responseTime,
+      });
+
+    if (!response.body) {
+      await store(new ArrayBuffer(0));
+      onStored?.();
+      return response;
+    }
+
+    // 复制响应体，一份返回给调用者，另一份在后台读取并保存
+    // 调用者取消响应体时同时取消复制的一份，这样不会保存不完整的响应体，连接也会中断
+    const [body, copy] = response.body.tee();
+    const bodyReader = body.getReader();
+    const copyReader = copy.getReader();
+    let cancelled = false;
+    readAll(copyReader)
+      .then((data) => {
+        if (!cancelled) {
+          return store(data);
+        }
+      })
+      .catch(() => {})
+      .finally(onStored);
+    const callerBody = new ReadableStream<Uint8Array>(
+      {
+        async pull(controller) {
+          try {
+            const result = await bodyReader.read();
+            if (result.done) {
+              controller.close();
+            } else {
+              controller.enqueue(result.value);
+            }
+          } catch (error) {
+            controller.error(error);
+          }
+        },
+        cancel(reason) {
+          cancelled = true;
+          copyReader.cancel(reason).catch(() => {});
+          return bodyReader.cancel(reason);
+        },
+      },
+      { highWaterMark: 0 }
+    );
+    const cachedResponse = new Response(callerBody, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    Object.defineProperty(cachedResponse, "url", { value: response.url });
+    Object.defineProperty(cachedResponse, "redirected", {
+      value: response.redirected,
+    });
+    return cachedResponse;
+  }
+
+  /**
+   * 在后台重新验证缓存
+   * 不使用请求的 signal，因为请求在返回过期响应时就已经结束了
+   */
+  function revalidate(
+    input: RequestInfo | URL,
+    init: RequestInit,
+    url: string,
+    headers: Headers,
+    entry: CachedResponse
+  ): Promise<Response> {
+    let revalidation = pendingRevalidations.get(url);
+    if (!revalidation) {
+      revalidation = (async () => {
+        try {
+          let onStored!: () => void;
+          const stored = new Promise<void>((resolve) => {
+            onStored = resolve;
+          });
+          const response = await load(
+            input,
+            { ...init, signal: undefined },
+            url,
+            headers,
+            entry,
+            onStored
+          );
+          // 读取完整的响应体，并等待响应保存到缓存之后才算完成
+          const body = await response.arrayBuffer();
+          await stored;
+          const revalidated = new Response(body, response);
+          Object.defineProperty(revalidated, "url", { value: response.url });
+          return revalidated;
+        } finally {
+          pendingRevalidations.delete(url);
+        }
+      })();
+      pendingRevalidations.set(url, revalidation);
+      revalidation.catch(() => {});
+    }
+    return revalidation;
+  }
+
+  const cacheFetch = async function cacheFetch(input, init = {}) {
+    const { url, method, headers } = parseRequest(input, init);
+
+    // 不安全的方法成功后，同一个 URL 的缓存已经过时
+    if (method !== "GET" && method !== "HEAD") {
+      const response = await fetch(input, init);
+      if (response.status < 400) {
+        await storage.delete(url);
+      }
+      return response;
+    }
+
+    const requestDirectives = parseCacheControl(headers.get("cache-control"));
+    if (
+      method !== "GET" ||
+      init.cache === "no-store" ||
+      requestDirectives["no-store"]
+    ) {
+      return fetch(input, init);
+    }
+
+    const entry =
+      init.cache === "reload" ? undefined : await match(url, headers);
+
+    // only-if-cached 没有可用的缓存时不发送请求
+    if (!entry && init.cache === "only-if-cached") {
+      return new Response(undefined, {
+        status: 504,
+        statusText: "Gateway Timeout",
+      });
+    }
+
+    if (entry) {
+      if (init.cache === "force-cache" || init.cache === "only-if-cached") {
+        return toResponse(entry);
+      }
+
+      // 检查缓存是否新鲜，并应用请求的 max-age 和 min-fresh 指令
+      const age = getCurrentAge(entry);
+      const lifetime = getFreshnessLifetime(entry, shared);
+      const requestMaxAge = getSeconds(requestDirectives, "max-age");
+      const minFresh = (getSeconds(requestDirectives, "min-fresh") || 0) * 1000;
+      const revalidationRequired =
+        init.cache === "no-cache" || !!requestDirectives["no-cache"];
+      const fresh =
+        !revalidationRequired &&
+        lifetime - minFresh > age &&
+        (requestMaxAge === undefined || requestMaxAge * 1000 > age);
+      if (fresh) {
+        return toResponse(entry);
+      }
+
+      // 在 stale-while-revalidate 范围内，直接返回过期响应并在后台重新验证
+      const staleWhileRevalidate = getStaleWindow(
+        entry,
+        "stale-while-revalidate",
+        options.staleWhileRevalidate ?? 0,
+        shared
+      );
+      if (!revalidationRequired && lifetime + staleWhileRevalidate > age) {
+        const response = toResponse(entry);
+        revalidations.set(
+          response,
+          revalidate(input, init, url, headers, entry)
+        );
+        return response;
+      }
+    }
+
+    return load(input, init, url, headers, entry);
+  } as CacheFetch;
+
+  cacheFetch.matchStale = async (input, init = {}) => {
+    const { url, method, headers } = parseRequest(input, init);
+    if (method !== "GET") {
+      return undefined;
+    }
+    const entry = await match(url, headers);
+    if (!entry) {
+      return undefined;
+    }
+    const staleIfError = getStaleWindow(
+      entry,
+      "stale-if-error",
+      options.staleIfError ?? 0,
+      shared
+    );
+    return getFreshnessLifetime(entry, shared) + staleIfError >
+      getCurrentAge(entry)
+      ? toResponse(entry)
+      : undefined;
+  };
+
+  cacheFetch.getRevalidation = (response) => revalidations.get(response);
+
+  return cacheFetch;
+}
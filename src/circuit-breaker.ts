@@ -0,0 +1,235 @@
+/**
+ * src/circuit-breaker.ts
+ *
+ * 这个文件实现了按 origin 熔断的熔断器（circuit breaker）。
+ * 当下游服务出现故障时，熔断器可以让请求快速失败，避免重试继续给服务增加压力。
+ *
+ * 状态流转：
+ * 1. closed：正常状态，在滚动窗口内统计失败次数
+ * 2. open：失败次数达到阈值后打开，所有请求直接失败
+ * 3. half-open：等待 resetTimeout 之后，允许少量探测请求通过
+ *    探测成功则回到 closed，失败则重新打开
+ */
+
+import { getFetchErrorKind } from "./retry";
+import type {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  FetchContext,
+  FetchRequest,
+} from "./types";
+
+/**
+ * 单个 origin 的熔断器状态
+ */
+interface OriginState {
+  /** 当前状态 */
+  state: CircuitBreakerState;
+
+  /** 滚动窗口内的失败时间戳 */
+  failures: number[];
+
+  /** 熔断器打开或进入半开状态的时间戳 */
+  changedAt: number;
+
+  /** 半开状态下已经放行的探测请求数量 */
+  probes: number;
+}
+
+/**
+ * 默认的失败判断
+ * 没有响应（主动中断除外）或状态码为 408、429、5xx 时算作失败
+ */
+function isFailure(context: FetchContext): boolean {
+  if (context.response) {
+    const status = context.response.status;
+    return status === 408 || status === 429 || status >= 500;
+  }
+  return getFetchErrorKind(context.error) !== "abort";
+}
+
+/**
+ * 创建熔断器
+ *
+ * @param options 熔断器配置
+ * @returns 熔断器实例，可以通过 createFetch 的 circuitBreaker 选项在多个实例之间共享
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = createCircuitBreaker({
+ *   failureThreshold: 3,
+ *   onStateChange: ({ origin, state }) => console.log(origin, state),
+ * });
+ * const api = ofetch.create({}, { circuitBreaker });
+ * circuitBreaker.getState("https://api.example.com"); // "closed"
+ * ```
+ */
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions = {}
+): CircuitBreaker {
+  const {
+    failureThreshold = 5,
+    window = 60_000,
+    resetTimeout = 30_000,
+    halfOpenRequests = 1,
+  } = options;
+
+  const origins = new Map<string, OriginState>();
+
+  function getOriginState(origin: string): OriginState {
+    let originState = origins.get(origin);
+    if (!originState) {
+      originState = {
+        state: "closed",
+        failures: [],
+        changedAt: Date.now(),
+        probes: 0,
+      };
+      origins.set(origin, originState);
+    }
+    return originState;
+  }
+
+  function setState(
+    origin: string,
+    originState: OriginState,
+    state: CircuitBreakerState
+  ) {
+    const previousState = originState.state;
+    originState.state = state;
+    originState.changedAt = Date.now();
+    originState.probes = 0;
+    if (state === "closed") {
+      originState.failures = [];
+    }
+    if (previousState !== state) {
+      options.onStateChange?.({ origin, state, previousState });
+    }
+  }
+
+  /**
+   * 打开状态持续 resetTimeout 之后进入半开状态
+   */
+  function refreshState(origin: string, originState: OriginState) {
+    if (
+      originState.state === "open" &&
+      Date.now() - originState.changedAt >= resetTimeout
+    ) {
+      setState(origin, originState, "half-open");
+    }
+  }
+
+  function getState(origin: string): CircuitBreakerState {
+    const originState = origins.get(origin);
+    if (!originState) {
+      return "closed";
+    }
+    refreshState(origin, originState);
+    return originState.state;
+  }
+
+  return {
+    getState,
+
+    getStates() {
+      const states: Record<string, CircuitBreakerState> = {};
+      for (const origin of origins.keys()) {
+        states[origin] = getState(origin);
+      }
+      return states;
+    },
+
+    reset(origin) {
+      if (origin === undefined) {
+        for (const [origin, originState] of origins) {
+          setState(origin, originState, "closed");
+        }
+        origins.clear();
+        return;
+      }
+      const originState = origins.get(origin);
+      if (originState) {
+        setState(origin, originState, "closed");
+        origins.delete(origin);
+      }
+    },
+
+    allowRequest(origin) {
+      const originState = getOriginState(origin);
+      refreshState(origin, originState);
+      switch (originState.state) {
+        case "open": {
+          return false;
+        }
+        case "half-open": {
+          // 探测请求没有结果（例如被主动中断）时，超过 resetTimeout 后允许新的探测
+          if (
+            originState.probes >= halfOpenRequests &&
+            Date.now() - originState.changedAt >= resetTimeout
+          ) {
+            originState.probes = 0;
+            originState.changedAt = Date.now();
+          }
+          if (originState.probes >= halfOpenRequests) {
+            return false;
+          }
+          originState.probes++;
+          return true;
+        }
+        default: {
+          return true;
+        }
+      }
+    },
+
+    record(origin, context) {
+      const originState = getOriginState(origin);
+      const failed = (options.isFailure || isFailure)(context);
+
+      // 主动中断的请求既不算成功也不算失败
+      if (
+        !failed &&
+        !context.response &&
+        getFetchErrorKind(context.error) === "abort"
+      ) {
+        return;
+      }
+
+      if (originState.state === "half-open") {
+        setState(origin, originState, failed ? "open" : "closed");
+        return;
+      }
+
+      if (!failed || originState.state === "open") {
+        return;
+      }
+
+      // 在滚动窗口内统计失败次数
+      const now = Date.now();
+      originState.failures = originState.failures.filter(
+        (time) => now - time < window
+      );
+      originState.failures.push(now);
+      if (originState.failures.length >= failureThreshold) {
+        setState(origin, originState, "open");
+      }
+    },
+  };
+}
+
+/**
+ * 获取请求的 origin，用作熔断器的键
+ * 无法解析的相对 URL 会返回空字符串（在浏览器中它们都属于当前页面的 origin）
+ *
+ * @param request 请求 URL 或 Request 对象
+ * @returns origin 字符串，例如 "https://api.example.com"
+ */
+export function getRequestOrigin(request: FetchRequest): string {
+  const url = typeof request === "string" ? request : request.url;
+  try {
+    return new URL(url, globalThis.location?.href).origin;
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * src/compress.ts
+ *
+ * 这个文件负责压缩请求体。
+ * 主要包括：
+ * 1. 判断请求体是否需要压缩（类型和大小阈值）
+ * 2. 把请求体通过压缩流转换为压缩后的数据
+ *
+ * 字符串、Blob 和二进制数据会完整压缩后再发送，这样请求仍然有确定的长度，也可以重试；
+ * ReadableStream 请求体会边读取边压缩，以流的形式发送。
+ */
+
+import { isReadableStream } from "./stream";
+import type {
+  CompressionEncoding,
+  CompressOptions,
+  CreateCompressionStream,
+} from "./types";
+
+/**
+ * 默认的压缩阈值（字节），更小的请求体不压缩
+ */
+const DEFAULT_THRESHOLD = 1024;
+
+/**
+ * 默认的压缩流，使用 CompressionStream
+ *
+ * @param encoding 压缩格式
+ * @returns 压缩流，运行时不支持这个格式时抛出错误
+ */
+export const createCompressionStream: CreateCompressionStream = (encoding) => {
+  try {
+    return new CompressionStream(encoding as CompressionFormat);
+  } catch (error) {
+    // 例如大多数浏览器的 CompressionStream 不支持 br
+    throw new TypeError(
+      `Request body compression "${encoding}" is not supported in this runtime. Use the Node.js entry or a custom createCompressionStream.`,
+      { cause: error }
+    );
+  }
+};
+
+/**
+ * 读取 compress 选项
+ *
+ * @param compress compress 选项
+ * @returns 完整的压缩配置，不压缩时返回 undefined
+ */
+export function resolveCompressOptions(
+  compress: CompressionEncoding | CompressOptions | false | undefined
+): Required<CompressOptions> | undefined {
+  if (!compress) {
+    return undefined;
+  }
+  const options =
+    typeof compress === "string" ? { encoding: compress } : compress;
+  return { threshold: DEFAULT_THRESHOLD, ...options };
+}
+
+/**
+ * 获取请求体的字节数
+ *
+ * @param body 请求体
+ * @returns 字节数，不支持压缩的请求体返回 undefined
+ */
+function getBodySize(body: unknown): number | undefined {
+  if (typeof body === "string") {
+    return new TextEncoder().encode(body).byteLength;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (
+    !!body &&
+    typeof (body as Blob).stream === "function" &&
+    typeof (body as Blob).size === "number"
+  ) {
+    return (body as Blob).size;
+  }
+  return undefined;
+}
+
+/**
+ * 压缩请求体
+ *
+ * @param body 序列化后的请求体
+ * @param options 压缩配置
+ * @param createStream 创建压缩流的函数
+ * @returns 压缩后的请求体，不需要压缩（类型不支持或小于阈值）时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * const compressed = await compressBody(JSON.stringify(data), { encoding: "gzip", threshold: 1024 }, createCompressionStream);
+ * ```
+ */
+export async function compressBody(
+  body: unknown,
+  options: Required<CompressOptions>,
+  createStream: CreateCompressionStream
+): Promise<Uint8Array | ReadableStream<Uint8Array> | undefined> {
+  if (isReadableStream(body)) {
+    return body.pipeThrough(createStream(options.encoding));
+  }
+  const size = getBodySize(body);
+  if (size === undefined || size < options.threshold) {
+    return undefined;
+  }
+  const compressed = new Response(body as BodyInit).body!.pipeThrough(
+    createStream(options.encoding)
+  );
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+}
@@ -0,0 +1,193 @@
+/**
+ * src/dedupe.ts
+ *
+ * 这个文件实现了同时进行的相同请求的合并（single-flight）。
+ * 相同的请求（方法、URL 和请求头都相同）正在进行时，新的请求不会再发送，
+ * 而是等待同一个响应。每个调用者都会得到自己的响应副本，
+ * 某个调用者中断时只会影响它自己，所有调用者都中断后才会中断共享的请求。
+ */
+
+import { isReadableStream, withFinalizer, withResponseBody } from "./stream";
+import type { DedupeOptions } from "./types";
+
+/**
+ * 等待共享响应的调用者
+ */
+interface Subscriber {
+  /** exclusive 表示只有这一个调用者，得到的是原始的响应 */
+  resolve: (response: Response, exclusive: boolean) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * 正在进行的共享请求
+ */
+interface Flight {
+  /** 用于中断共享请求的控制器 */
+  controller: AbortController;
+
+  /** 还在等待响应的调用者 */
+  subscribers: Subscriber[];
+}
+
+/**
+ * 请求合并器
+ */
+export interface Deduper {
+  /**
+   * 发送请求，相同 key 的请求正在进行时等待它的响应
+   *
+   * @param key 请求的键
+   * @param signal 调用者自己的 signal，只会中断这个调用者
+   * @param send 发送共享请求，参数是共享请求的 signal
+   * @returns 这个调用者的响应副本
+   */
+  run(
+    key: string,
+    signal: AbortSignal | undefined,
+    send: (signal: AbortSignal) => Promise<Response>
+  ): Promise<Response>;
+}
+
+/**
+ * 生成请求合并的键
+ *
+ * @param method 请求方法
+ * @param url 完整的请求 URL（已经添加 baseURL 和查询参数）
+ * @param headers 请求头
+ * @param body 序列化后的请求体，只有字符串和 URLSearchParams 可以比较
+ * @param options 合并配置
+ * @returns 请求的键，这个请求不能合并时返回 undefined
+ */
+export function getDedupeKey(
+  method: string,
+  url: string,
+  headers: Headers,
+  body: unknown,
+  options: DedupeOptions
+): string | undefined {
+  const methods = options.methods || ["GET", "HEAD"];
+  if (!methods.some((m) => m.toUpperCase() === method)) {
+    return undefined;
+  }
+  // 流、文件、表单和压缩后的请求体无法比较，这些请求不合并
+  if (
+    body !== undefined &&
+    body !== null &&
+    typeof body !== "string" &&
+    !(body instanceof URLSearchParams)
+  ) {
+    return undefined;
+  }
+  const headerNames = options.headers?.map((name) => name.toLowerCase());
+  const keyHeaders = [...headers].filter(
+    ([name]) => !headerNames || headerNames.includes(name)
+  );
+  return JSON.stringify([method, url, keyHeaders, body?.toString() ?? ""]);
+}
+
+/**
+ * 创建请求合并器
+ *
+ * @param AbortController AbortController 类
+ * @returns 请求合并器，每个 fetch 实例一个
+ */
+export function createDeduper(
+  AbortController: typeof globalThis.AbortController
+): Deduper {
+  const flights = new Map<string, Flight>();
+
+  function start(
+    key: string,
+    send: (signal: AbortSignal) => Promise<Response>
+  ): Flight {
+    const flight: Flight = {
+      controller: new AbortController(),
+      subscribers: [],
+    };
+    flights.set(key, flight);
+
+    const finish = () => {
+      if (flights.get(key) === flight) {
+        flights.delete(key);
+      }
+      return flight.subscribers.splice(0);
+    };
+
+    send(flight.controller.signal).then(
+      (response) => {
+        const [first, ...rest] = finish();
+        if (!first) {
+          response.body?.cancel().catch(() => {});
+          return;
+        }
+        // 先为其他调用者复制响应，再把原始响应交给第一个调用者，
+        // 这样复制时响应体还没有被读取
+        for (const subscriber of rest) {
+          subscriber.resolve(response.clone(), false);
+        }
+        first.resolve(response, rest.length === 0);
+      },
+      (error) => {
+        for (const subscriber of finish()) {
+          subscriber.reject(error);
+        }
+      }
+    );
+
+    return flight;
+  }
+
+  return {
+    run(key, signal, send) {
+      return new Promise<Response>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        const flight = flights.get(key) || start(key, send);
+
+        const onAbort = () => {
+          const index = flight.subscribers.indexOf(subscriber);
+          if (index === -1) {
+            return;
+          }
+          flight.subscribers.splice(index, 1);
+          reject(signal!.reason);
+          // 所有调用者都中断后，中断共享的请求
+          if (flight.subscribers.length === 0) {
+            if (flights.get(key) === flight) {
+              flights.delete(key);
+            }
+            flight.controller.abort(signal!.reason);
+          }
+        };
+
+        const subscriber: Subscriber = {
+          resolve(response, exclusive) {
+            signal?.removeEventListener("abort", onAbort);
+            // 只有这一个调用者时，读取响应体期间中断仍然会中断共享的请求
+            if (exclusive && signal && isReadableStream(response.body)) {
+              const onBodyAbort = () => flight.controller.abort(signal.reason);
+              signal.addEventListener("abort", onBodyAbort);
+              response = withResponseBody(
+                response,
+                withFinalizer(response.body, () =>
+                  signal.removeEventListener("abort", onBodyAbort)
+                )
+              );
+            }
+            resolve(response);
+          },
+          reject(error) {
+            signal?.removeEventListener("abort", onAbort);
+            reject(error);
+          },
+        };
+        flight.subscribers.push(subscriber);
+        signal?.addEventListener("abort", onAbort);
+      });
+    },
+  };
+}
@@ -11,7 +11,12 @@
  * 4. 兼容性处理
  */
 
-import type { FetchContext, IFetchError } from "./types";
+import type {
+  FetchContext,
+  IFetchError,
+  StandardSchemaIssue,
+  TimeoutType,
+} from "./types";
 
 /**
  * FetchError 类
@@ -46,12 +51,126 @@ export class FetchError<T = any> extends Error implements IFetchError<T> {
   }
 }
 
+/**
+ * 请求超时错误
+ *
+ * 超时时会用它中断请求，它会作为 FetchError 的 cause。
+ * name 和 code 与 DOMException 的 TimeoutError 保持一致，type 表示触发的是哪一种超时：
+ * - headers：等待响应头超时
+ * - body：读取响应体时，两个数据块之间空闲超时
+ * - total：包括所有重试在内的总时间超时
+ *
+ * @example
+ * ```typescript
+ * await $fetch("/api", { timeout: { body: 5000 } }).catch((error) => {
+ *   if (error.cause instanceof TimeoutError) {
+ *     console.log(error.cause.type); // "body"
+ *   }
+ * });
+ * ```
+ */
+export class TimeoutError extends Error {
+  /** 超时类型 */
+  type: TimeoutType;
+
+  /** 超时时间（毫秒） */
+  timeout: number;
+
+  /** 与 DOMException.TIMEOUT_ERR 相同 */
+  code: number;
+
+  constructor(type: TimeoutType, timeout: number) {
+    super(
+      `[TimeoutError]: The operation was aborted due to timeout (${type} timeout of ${timeout}ms)`
+    );
+    this.name = "TimeoutError";
+    this.type = type;
+    this.timeout = timeout;
+    this.code = 23; // DOMException.TIMEOUT_ERR
+  }
+}
+
 /**
  * 扩展 FetchError 类型，使其包含 IFetchError 接口的所有属性
  * 这样可以让 TypeScript 更好地理解错误对象的类型
  */
 export interface FetchError<T = any> extends IFetchError<T> {}
 
+/**
+ * 熔断器打开时抛出的错误
+ *
+ * 当某个 origin 的失败次数超过阈值后，熔断器会打开，
+ * 在恢复之前发往这个 origin 的请求都会直接失败，不会发送到服务器，也不会重试。
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await $fetch("/api");
+ * } catch (error) {
+ *   if (error instanceof CircuitOpenError) {
+ *     // 服务暂时不可用，使用降级数据
+ *   }
+ * }
+ * ```
+ */
+export class CircuitOpenError<T = any> extends FetchError<T> {
+  constructor(message: string, opts?: { cause: unknown }) {
+    super(message, opts);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * 响应体超过 maxResponseSize 时抛出的错误
+ *
+ * Content-Length 超过限制时在读取响应体之前失败，
+ * 否则在读取响应体的过程中超过限制时中断连接并失败。这个错误不会重试。
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await $fetch(url, { maxResponseSize: 1024 * 1024 });
+ * } catch (error) {
+ *   if (error instanceof ResponseTooLargeError) {
+ *     // 响应太大，放弃这个链接
+ *   }
+ * }
+ * ```
+ */
+export class ResponseTooLargeError<T = any> extends FetchError<T> {
+  constructor(message: string, opts?: { cause: unknown }) {
+    super(message, opts);
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+/**
+ * 响应数据没有通过 schema 校验时抛出的错误
+ *
+ * issues 是校验库返回的问题列表，request、response 和 data 与其他 FetchError 相同。
+ * 这个错误不会重试。
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await $fetch("/api/repo", { schema: RepoSchema });
+ * } catch (error) {
+ *   if (error instanceof SchemaValidationError) {
+ *     console.log(error.issues);
+ *   }
+ * }
+ * ```
+ */
+export class SchemaValidationError<T = any> extends FetchError<T> {
+  /** 校验发现的问题 */
+  issues: ReadonlyArray<StandardSchemaIssue> = [];
+
+  constructor(message: string, opts?: { cause: unknown }) {
+    super(message, opts);
+    this.name = "SchemaValidationError";
+  }
+}
+
 /**
  * 创建标准化的 FetchError 实例
  * 
@@ -63,6 +182,7 @@ export interface FetchError<T = any> extends IFetchError<T> {}
  * 4. 原始错误信息
  * 
  * @param ctx 请求上下文，包含请求、选项、响应和错误信息
+ * @param ErrorClass 要创建的错误类，默认为 FetchError，也可以是它的子类
  * @returns 一个标准化的 FetchError 实例
  * 
  * @example
@@ -76,7 +196,8 @@ export interface FetchError<T = any> extends IFetchError<T> {}
  * ```
  */
 export function createFetchError<T = any>(
-  ctx: FetchContext<T>
+  ctx: FetchContext<T>,
+  ErrorClass: typeof FetchError = FetchError
 ): IFetchError<T> {
   // 获取原始错误信息
   const errorMessage = ctx.error?.message || ctx.error?.toString() || "";
@@ -98,7 +219,7 @@ export function createFetchError<T = any>(
   }`;
 
   // 创建 FetchError 实例
-  const fetchError: FetchError<T> = new FetchError(
+  const fetchError: FetchError<T> = new ErrorClass(
     message,
     ctx.error ? { cause: ctx.error } : undefined
   );
@@ -16,15 +16,58 @@
 
 import type { Readable } from "node:stream";
 import destr from "destr";
-import { withBase, withQuery } from "ufo";
-import { createFetchError } from "./error";
+import { stringifyQuery, withBase, withQuery } from "ufo";
+import {
+  CircuitOpenError,
+  FetchError,
+  ResponseTooLargeError,
+  SchemaValidationError,
+  TimeoutError,
+  createFetchError,
+} from "./error";
+import { createCircuitBreaker, getRequestOrigin } from "./circuit-breaker";
+import { createCacheFetch, createLRUCacheStorage } from "./cache";
+import { createDeduper, getDedupeKey } from "./dedupe";
+import { createConcurrencyLimiter, getQueuePriority } from "./queue";
+import { createRateLimiter } from "./rate-limit";
+import { hasFileValue, toFormData } from "./form-data";
+import { createLatencyTracker, getHedgeDelay, hedgeFetch } from "./hedge";
+import { getBackoffDelay, getFetchErrorKind, getRetryAfter } from "./retry";
 import {
   isPayloadMethod,
   isJSONSerializable,
   detectResponseType,
   resolveFetchOptions,
   callHooks,
+  randomUUID,
+  resolveTimeouts,
+  anySignal,
+  isPlainObject,
+  isBodyInit,
+  resolveBodySerializer,
+  withPathParams,
 } from "./utils";
+import {
+  getBodyStream,
+  getContentLength,
+  isReadableStream,
+  parseNDJSON,
+  withFinalizer,
+  withIdleTimeout,
+  withResponseBody,
+  withProgress,
+  withSizeLimit,
+} from "./stream";
+import {
+  compressBody,
+  createCompressionStream as defaultCreateCompressionStream,
+  resolveCompressOptions,
+} from "./compress";
+import {
+  readEventStream,
+  type EventStreamBody,
+  type EventStreamState,
+} from "./sse";
 import type {
   CreateFetchOptions,
   FetchResponse,
@@ -33,6 +76,12 @@ import type {
   $Fetch,
   FetchRequest,
   FetchOptions,
+  FetchErrorKind,
+  FetchRetryInfo,
+  CircuitBreaker,
+  CacheOptions,
+  RateLimiter,
+  TypedFetch,
 } from "./types";
 
 /**
@@ -60,6 +109,48 @@ const retryStatusCodes = new Set([
  */
 const nullBodyResponses = new Set([101, 204, 205, 304]);
 
+/**
+ * 没有收到响应时，需要自动重试的错误类型列表
+ * TLS 证书错误重试也不会成功，所以不在列表中
+ * 用户主动中断的请求在重试判断之前就已经排除，这里的 abort 只会来自超时
+ */
+const retryErrorKinds = new Set<FetchErrorKind>([
+  "dns",
+  "connection",
+  "timeout",
+  "abort",
+  "unknown",
+]);
+
+/**
+ * 没有设置 maxRetryDelay 时，服务器要求的重试等待时间的默认上限（毫秒）
+ */
+const defaultMaxRetryAfter = 60_000;
+
+/**
+ * 在读取时才解析响应体的响应类型
+ */
+const streamResponseTypes = new Set<ResponseType>(["stream", "ndjson", "sse"]);
+
+/**
+ * 在同一个逻辑请求的多次重试之间共享的状态
+ * 每次重试都会调用一次新的 fetchRaw，并创建新的上下文，
+ * 这些状态需要从上一次尝试传递下去
+ */
+interface RetryState {
+  /** 当前是第几次尝试，从 1 开始 */
+  attempt: number;
+
+  /** 第一次尝试开始的时间戳 */
+  startTime: number;
+
+  /** 上一次重试使用的延迟（毫秒） */
+  retryDelay?: number;
+
+  /** 请求失败后用来代替错误的缓存中的过期响应（stale-if-error） */
+  staleResponse?: Response;
+}
+
 /**
  * 创建自定义的 fetch 实例
  * 
@@ -70,14 +161,118 @@ const nullBodyResponses = new Set([101, 204, 205, 304]);
  * - defaults: 默认的请求选项
  * 
  * @returns 一个增强版的 fetch 函数
+ *
+ * 指定 Api 类型参数时，返回按 API 路由定义检查类型的实例
+ *
+ * @example
+ * ```typescript
+ * const api = createFetch<Api>({ defaults: { baseURL: "https://api.example.com" } });
+ * ```
  */
-export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
+export function createFetch(globalOptions?: CreateFetchOptions): $Fetch;
+export function createFetch<Api>(
+  globalOptions?: CreateFetchOptions
+): TypedFetch<Api>;
+export function createFetch(
+  globalOptions: CreateFetchOptions = {}
+): $Fetch | TypedFetch<any> {
   const {
     fetch = globalThis.fetch,
     Headers = globalThis.Headers,
     AbortController = globalThis.AbortController,
+    FormData = globalThis.FormData,
+    createCompressionStream = defaultCreateCompressionStream,
+    parsers,
   } = globalOptions;
 
+  // 按 origin 记录的请求延迟，用于对冲请求的百分位等待时间
+  const latencyTracker = createLatencyTracker();
+
+  // 熔断器（可选）
+  // 传入的是熔断器实例时直接使用，这样多个 fetch 实例可以共享熔断状态
+  const circuitBreakerOption = globalOptions.circuitBreaker;
+  let circuitBreaker: CircuitBreaker | undefined;
+  if (circuitBreakerOption === true) {
+    circuitBreaker = createCircuitBreaker();
+  } else if (circuitBreakerOption) {
+    circuitBreaker =
+      "allowRequest" in circuitBreakerOption
+        ? circuitBreakerOption
+        : createCircuitBreaker(circuitBreakerOption);
+  }
+
+  // HTTP 缓存（可选）
+  // 缓存包装在底层的 fetch 外面，重试、超时和对冲请求都会经过缓存
+  const cacheOption = globalOptions.cache;
+  let cacheOptions: CacheOptions | undefined;
+  if (cacheOption) {
+    cacheOptions = {
+      ...(cacheOption === true ? {} : cacheOption),
+      storage:
+        (cacheOption === true ? undefined : cacheOption.storage) ||
+        createLRUCacheStorage({ max: 1000 }),
+    };
+  }
+  const cache = cacheOptions
+    ? createCacheFetch(fetch, cacheOptions, Headers)
+    : undefined;
+  const requestFetch = cache || fetch;
+
+  // 合并同时进行的相同请求（可选）
+  const dedupeOptions =
+    globalOptions.dedupe === true ? {} : globalOptions.dedupe || undefined;
+  const deduper = dedupeOptions ? createDeduper(AbortController) : undefined;
+
+  // 并发限制（可选），每个实例有自己的队列
+  const concurrency = globalOptions.concurrency;
+  const limiter = concurrency
+    ? createConcurrencyLimiter(
+        typeof concurrency === "number" ? { limit: concurrency } : concurrency
+      )
+    : undefined;
+
+  // 客户端限流（可选）
+  // 传入的是限流器实例时直接使用，这样多个 fetch 实例可以共享令牌桶
+  const rateLimitOption = globalOptions.rateLimit;
+  let rateLimiter: RateLimiter | undefined;
+  if (rateLimitOption) {
+    rateLimiter =
+      "acquire" in rateLimitOption
+        ? rateLimitOption
+        : createRateLimiter(rateLimitOption);
+  }
+
+  /**
+   * 根据 retryDelay 选项计算重试延迟，结果不超过 maxRetryDelay
+   * 函数形式的 retryDelay 可以通过 context.retryAfter 读取并覆盖服务器的要求
+   *
+   * @param context 请求上下文
+   * @param previousDelay 上一次重试使用的延迟
+   * @returns 延迟毫秒数
+   */
+  function getRetryDelay(context: FetchContext, previousDelay?: number) {
+    const retryDelayOption = context.options.retryDelay;
+    let retryDelay: number;
+    if (typeof retryDelayOption === "function") {
+      retryDelay = retryDelayOption(context);
+    } else if (context.retryAfter !== undefined) {
+      retryDelay = context.retryAfter;
+    } else if (retryDelayOption && typeof retryDelayOption !== "number") {
+      // 内置的退避策略
+      retryDelay = getBackoffDelay(
+        retryDelayOption,
+        context.attempt,
+        previousDelay
+      );
+    } else {
+      retryDelay = retryDelayOption || 0;
+    }
+    if (context.options.maxRetryDelay !== undefined) {
+      retryDelay = Math.min(retryDelay, context.options.maxRetryDelay);
+    }
+    return retryDelay;
+  }
+
   /**
    * 错误处理函数
    * 负责处理请求失败的情况，包括：
@@ -86,12 +281,18 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
    * 3. 创建标准化的错误对象
    * 
    * @param context 请求上下文，包含请求、选项、响应和错误信息
+   * @param state 重试状态
    * @returns 处理后的响应或抛出错误
    */
-  async function onError(context: FetchContext): Promise<FetchResponse<any>> {
-    // 检查是否是主动中断的请求
-    // 如果是主动中断且没有设置超时，则不自动重试
+  async function onError(
+    context: FetchContext,
+    state: RetryState
+  ): Promise<FetchResponse<any>> {
+    // 检查是否是主动中断的请求，主动中断的请求不自动重试
+    // 用户传入的 signal 已经中断，说明是主动中断而不是超时
+    // 不支持中断原因的运行时中，超时也会以 AbortError 结束，所以只在没有设置超时时才看错误名称
     const isAbort =
+      !!context.options.signal?.aborted ||
       (context.error &&
         context.error.name === "AbortError" &&
         !context.options.timeout) ||
@@ -104,30 +305,110 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
         retries = context.options.retry;
       } else {
         // 对于 GET 请求默认重试 1 次，其他请求方法不重试
-        retries = isPayloadMethod(context.options.method) ? 0 : 1;
+        // 设置了幂等键的请求可以安全地重试，与 GET 请求相同
+        retries =
+          isPayloadMethod(context.options.method) &&
+          !context.options.idempotencyKey
+            ? 0
+            : 1;
       }
 
-      const responseCode = (context.response && context.response.status) || 500;
-      // 检查响应状态码是否需要重试
-      if (
-        retries > 0 &&
-        (Array.isArray(context.options.retryStatusCodes)
-          ? context.options.retryStatusCodes.includes(responseCode)
-          : retryStatusCodes.has(responseCode))
-      ) {
+      // 检查是否需要重试
+      let shouldRetry = false;
+      if (retries > 0) {
+        if (context.options.shouldRetry) {
+          // 自定义重试判断
+          shouldRetry = await context.options.shouldRetry(context);
+        } else if (context.response) {
+          // 检查响应状态码是否需要重试
+          const responseCode = context.response.status;
+          shouldRetry = Array.isArray(context.options.retryStatusCodes)
+            ? context.options.retryStatusCodes.includes(responseCode)
+            : retryStatusCodes.has(responseCode);
+        } else {
+          // 没有响应时，根据网络错误的类型判断
+          const errorKind = getFetchErrorKind(context.error);
+          shouldRetry = Array.isArray(context.options.retryErrorKinds)
+            ? context.options.retryErrorKinds.includes(errorKind)
+            : retryErrorKinds.has(errorKind);
+        }
+      }
+
+      if (shouldRetry) {
+        // 读取服务器要求的等待时间（Retry-After 等响应头），并应用上限
+        const maxRetryDelay =
+          context.options.maxRetryDelay ?? defaultMaxRetryAfter;
+        const retryAfter = getRetryAfter(context.response);
+        context.retryAfter =
+          retryAfter === undefined
+            ? undefined
+            : Math.min(retryAfter, maxRetryDelay);
+
         // 计算重试延迟时间
-        const retryDelay =
-          typeof context.options.retryDelay === "function"
-            ? context.options.retryDelay(context)
-            : context.options.retryDelay || 0;
-        if (retryDelay > 0) {
-          await new Promise((resolve) => setTimeout(resolve, retryDelay));
+        let retryDelay = getRetryDelay(context, state.retryDelay);
+
+        // 调用重试钩子函数，钩子可以修改重试延迟或取消重试
+        let retryCancelled = false;
+        if (context.options.onRetry) {
+          const retryContext: FetchContext & FetchRetryInfo = Object.assign(
+            context,
+            {
+              remainingRetries: retries - 1,
+              retryDelay,
+              cancelRetry: () => {
+                retryCancelled = true;
+              },
+            }
+          );
+          await callHooks(retryContext, context.options.onRetry);
+          retryDelay = retryContext.retryDelay;
         }
-        // 重试请求
-        return $fetchRaw(context.request, {
-          ...context.options,
-          retry: retries - 1,
-        });
+
+        // 超过总超时时间的重试没有意义
+        const totalTimeout = resolveTimeouts(context.options.timeout).total;
+        if (totalTimeout && context.elapsed + retryDelay >= totalTimeout) {
+          retryCancelled = true;
+        }
+
+        if (!retryCancelled) {
+          if (retryDelay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, retryDelay));
+          }
+          // 重试请求
+          return fetchRaw(
+            context.request,
+            {
+              ...context.options,
+              retry: retries - 1,
+            },
+            {
+              ...state,
+              attempt: state.attempt + 1,
+              retryDelay,
+            }
+          );
+        }
+      }
+    }
+
+    // 请求失败（网络错误或 5xx）时，使用缓存中的过期响应代替错误（stale-if-error）
+    // 过期响应与正常响应一样处理，会调用 onResponse 钩子并解析响应体
+    if (
+      cache &&
+      !isAbort &&
+      !state.staleResponse &&
+      (!context.response || context.response.status >= 500)
+    ) {
+      const staleResponse = await cache.matchStale(
+        context.request,
+        context.options as RequestInit
+      );
+      if (staleResponse) {
+        return fetchRaw(
+          context.request,
+          { ...context.options, retry: false },
+          { ...state, staleResponse }
+        );
       }
     }
 
@@ -141,18 +422,128 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
     throw error;
   }
 
+  /**
+   * 重新连接 SSE 响应
+   * 等待服务器通过 retry 字段要求的时间（没有时按 retryDelay 计算，默认 3 秒）后，
+   * 带着 Last-Event-ID 请求头重新发送请求，新的请求同样会调用钩子并按配置重试
+   *
+   * @param context 第一个请求的上下文
+   * @param eventStream 事件流状态
+   * @param attempt 第几次连续重新连接
+   * @param error 导致连接断开的错误
+   * @returns 新的响应体，不再重新连接时返回 undefined
+   */
+  async function reconnectEventStream(
+    context: FetchContext,
+    eventStream: EventStreamState,
+    attempt: number,
+    error?: unknown
+  ): Promise<EventStreamBody | undefined> {
+    const { reconnect, signal, retryDelay, maxRetryDelay } = context.options;
+    const maxAttempts = reconnect === true ? Infinity : reconnect || 0;
+    // 没有响应的错误（例如连接被拒绝）会继续重新连接，服务器返回的错误响应不会
+    if (
+      attempt > maxAttempts ||
+      signal?.aborted ||
+      (error instanceof FetchError && error.response?.ok === false)
+    ) {
+      if (error) {
+        throw error;
+      }
+      return undefined;
+    }
+
+    let delay: number;
+    if (eventStream.retry !== undefined) {
+      delay = Math.min(eventStream.retry, maxRetryDelay ?? Infinity);
+    } else if (retryDelay === undefined) {
+      delay = 3000;
+    } else {
+      delay = getRetryDelay({ ...context, attempt, error: error as Error });
+    }
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    const headers = new Headers(context.options.headers);
+    if (eventStream.lastEventId) {
+      headers.set("last-event-id", eventStream.lastEventId);
+    }
+    const response = await $fetchRaw(context.request, {
+      ...context.options,
+      headers,
+      responseType: "stream",
+    });
+    return response._data;
+  }
+
+  /**
+   * 按 schema 校验响应数据
+   *
+   * @param context 请求上下文
+   * @param data 解析后的响应数据
+   * @returns schema 输出的数据
+   */
+  async function validateResponseData(context: FetchContext, data: unknown) {
+    const result = await context.options.schema!["~standard"].validate(data);
+    if (!result.issues) {
+      return result.value;
+    }
+
+    const issues = result.issues
+      .map((issue) => {
+        const path = issue.path
+          ?.map((key) => String(typeof key === "object" ? key.key : key))
+          .join(".");
+        return path ? `${path}: ${issue.message}` : issue.message;
+      })
+      .join(", ");
+    context.error = new Error(
+      `Response data does not match the schema (${issues})`
+    );
+    const error = createFetchError(
+      context,
+      SchemaValidationError
+    ) as SchemaValidationError;
+    error.issues = result.issues;
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(error, $fetchRaw);
+    }
+    throw error;
+  }
+
   /**
    * 原始的 fetch 实现
-   * 这是实际发送请求和处理响应的核心函数
+   * 这是用户调用的入口，会为新的逻辑请求初始化重试状态
    * 
    * @param _request 请求 URL 或 Request 对象
    * @param _options 请求选项
    * @returns 处理后的响应
    */
-  const $fetchRaw: $Fetch["raw"] = async function $fetchRaw<
+  const $fetchRaw: $Fetch["raw"] = function $fetchRaw<
     T = any,
     R extends ResponseType = "json",
   >(_request: FetchRequest, _options: FetchOptions<R> = {}) {
+    return fetchRaw<T, R>(_request, _options, {
+      attempt: 1,
+      startTime: Date.now(),
+    });
+  };
+
+  /**
+   * 单次尝试的实现
+   * 这是实际发送请求和处理响应的核心函数，每次重试都会再次调用
+   * 
+   * @param _request 请求 URL 或 Request 对象
+   * @param _options 请求选项
+   * @param state 重试状态
+   * @returns 处理后的响应
+   */
+  async function fetchRaw<T = any, R extends ResponseType = "json">(
+    _request: FetchRequest,
+    _options: FetchOptions<R>,
+    state: RetryState
+  ) {
     // 创建请求上下文
     const context: FetchContext = {
       request: _request,
@@ -164,6 +555,10 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
       ),
       response: undefined,
       error: undefined,
+      attempt: state.attempt,
+      get elapsed() {
+        return Date.now() - state.startTime;
+      },
     };
 
     // 将请求方法转换为大写
@@ -171,6 +566,31 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
       context.options.method = context.options.method.toUpperCase();
     }
 
+    // 为需要请求体的方法添加幂等键
+    // 重试时会带着同样的请求头，所以同一个逻辑请求的所有尝试都使用同一个键
+    if (
+      context.options.idempotencyKey &&
+      isPayloadMethod(context.options.method) &&
+      !context.options.headers.has("idempotency-key")
+    ) {
+      let idempotencyKey = context.options.idempotencyKey;
+      if (typeof idempotencyKey === "function") {
+        idempotencyKey = idempotencyKey(context);
+      }
+      context.options.headers.set(
+        "idempotency-key",
+        typeof idempotencyKey === "string" ? idempotencyKey : randomUUID()
+      );
+    }
+
+    // SSE 响应默认只接受事件流
+    if (
+      context.options.responseType === "sse" &&
+      !context.options.headers.has("accept")
+    ) {
+      context.options.headers.set("accept", "text/event-stream");
+    }
+
     // 调用请求前的钩子函数
     if (context.options.onRequest) {
       await callHooks(context, context.options.onRequest);
@@ -178,6 +598,14 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
 
     // 处理请求 URL
     if (typeof context.request === "string") {
+      // 替换路径参数
+      if (context.options.pathParams) {
+        context.request = withPathParams(
+          context.request,
+          context.options.pathParams
+        );
+        delete context.options.pathParams;
+      }
       // 添加基础 URL
       if (context.options.baseURL) {
         context.request = withBase(context.request, context.options.baseURL);
@@ -198,21 +626,60 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
 
     // 处理请求体
     if (context.options.body && isPayloadMethod(context.options.method)) {
-      if (isJSONSerializable(context.options.body)) {
+      const bodySerializer = resolveBodySerializer(context.options);
+      if (
+        isPlainObject(context.options.body) &&
+        (context.options.bodyType === "form-data" ||
+          (!context.options.bodyType && hasFileValue(context.options.body)))
+      ) {
+        // 处理 multipart/form-data 请求体
+        // 包含文件的对象会自动转换为 FormData
+        context.options.body = await toFormData(
+          context.options.body,
+          FormData,
+          context.options.formDataOptions
+        );
+        // 删除没有 boundary 的 Content-Type，让 fetch 根据 FormData 设置
+        const contentType = context.options.headers.get("content-type");
+        if (contentType && !contentType.includes("boundary=")) {
+          context.options.headers.delete("content-type");
+        }
+      } else if (
+        context.options.bodyType === "urlencoded" &&
+        isPlainObject(context.options.body)
+      ) {
+        // 处理 application/x-www-form-urlencoded 请求体
+        // 与查询参数使用相同的编码规则（数组重复使用同一个键，嵌套对象转换为 JSON）
+        context.options.body = stringifyQuery(
+          context.options.body as Record<string, any>
+        );
+        if (!context.options.headers.has("content-type")) {
+          context.options.headers.set(
+            "content-type",
+            "application/x-www-form-urlencoded"
+          );
+        }
+      } else if (
+        isJSONSerializable(context.options.body) ||
+        (bodySerializer && !isBodyInit(context.options.body))
+      ) {
         // 处理 JSON 请求体
-        // 自动将对象转换为 JSON 字符串
+        // 自动将对象转换为 JSON 字符串，或者使用自定义的序列化函数
+        const contentType = bodySerializer?.contentType || "application/json";
         context.options.body =
           typeof context.options.body === "string"
             ? context.options.body
-            : JSON.stringify(context.options.body);
+            : (bodySerializer?.serialize || JSON.stringify)(
+                context.options.body
+              );
 
         // 设置默认的 Content-Type 和 Accept 头
         context.options.headers = new Headers(context.options.headers || {});
         if (!context.options.headers.has("content-type")) {
-          context.options.headers.set("content-type", "application/json");
+          context.options.headers.set("content-type", contentType);
         }
         if (!context.options.headers.has("accept")) {
-          context.options.headers.set("accept", "application/json");
+          context.options.headers.set("accept", contentType);
         }
       } else if (
         // 处理流式请求体
@@ -229,44 +696,336 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
       }
     }
 
+    // 压缩请求体
+    // 已经设置了 Content-Encoding 的请求体（包括重试时已经压缩过的）不会再压缩
+    const compressOptions = resolveCompressOptions(context.options.compress);
+    if (
+      compressOptions &&
+      context.options.body &&
+      isPayloadMethod(context.options.method) &&
+      !context.options.headers.has("content-encoding")
+    ) {
+      // 运行时不支持压缩格式时直接失败，与请求错误一样调用 onRequestError，不会重试
+      let compressed: Awaited<ReturnType<typeof compressBody>>;
+      try {
+        compressed = await compressBody(
+          context.options.body,
+          compressOptions,
+          createCompressionStream
+        );
+      } catch (error_) {
+        context.error = error_ as Error;
+        if (context.options.onRequestError) {
+          await callHooks(
+            context as FetchContext & { error: Error },
+            context.options.onRequestError
+          );
+        }
+        const error = createFetchError(context);
+        if (Error.captureStackTrace) {
+          Error.captureStackTrace(error, $fetchRaw);
+        }
+        throw error;
+      }
+      if (compressed) {
+        context.options.body = compressed;
+        context.options.headers.set(
+          "content-encoding",
+          compressOptions.encoding
+        );
+        context.options.headers.delete("content-length");
+        if (isReadableStream(compressed) && !("duplex" in context.options)) {
+          context.options.duplex = "half";
+        }
+      }
+    }
+
+    // 熔断器打开时直接失败，不发送请求也不重试
+    const origin =
+      circuitBreaker || context.options.hedge || limiter || rateLimiter
+        ? getRequestOrigin(context.request)
+        : "";
+    if (
+      circuitBreaker &&
+      !state.staleResponse &&
+      !circuitBreaker.allowRequest(origin)
+    ) {
+      context.error = new Error(
+        `Circuit breaker is open for ${origin || "the current origin"}`
+      );
+      const error = createFetchError(context, CircuitOpenError);
+      if (Error.captureStackTrace) {
+        Error.captureStackTrace(error, $fetchRaw);
+      }
+      throw error;
+    }
+
     // 设置超时控制
-    let abortTimeout: NodeJS.Timeout | undefined;
-    if (!context.options.signal && context.options.timeout) {
-      const controller = new AbortController();
-      abortTimeout = setTimeout(() => {
-        const error = new Error(
-          "[TimeoutError]: The operation was aborted due to timeout"
+    // 内部的 signal 不写入 context.options，这样重试时不会带上已经中断的 signal
+    // 用户传入的 signal 会与超时的 signal 合并，任意一个都可以中断请求
+    const timeouts = resolveTimeouts(context.options.timeout);
+    let signal = context.options.signal || undefined;
+    let controller: AbortController | undefined;
+    let cleanupSignal: (() => void) | undefined;
+    let headersTimeout: NodeJS.Timeout | undefined;
+    let totalTimeout: NodeJS.Timeout | undefined;
+    // 设置了 maxResponseSize 时，超过限制后也要中断请求
+    if (
+      timeouts.headers ||
+      timeouts.body ||
+      timeouts.total ||
+      context.options.maxResponseSize !== undefined
+    ) {
+      const _controller = new AbortController();
+      controller = _controller;
+      if (signal) {
+        const combined = anySignal(
+          [signal, _controller.signal],
+          AbortController
         );
-        error.name = "TimeoutError";
-        (error as any).code = 23; // DOMException.TIMEOUT_ERR
-        controller.abort(error);
-      }, context.options.timeout);
-      context.options.signal = controller.signal;
+        signal = combined.signal;
+        cleanupSignal = combined.cleanup;
+      } else {
+        signal = _controller.signal;
+      }
+      if (timeouts.total) {
+        // 总超时从第一次尝试开始计算
+        totalTimeout = setTimeout(
+          () => {
+            _controller.abort(new TimeoutError("total", timeouts.total!));
+          },
+          Math.max(0, timeouts.total - context.elapsed)
+        );
+      }
     }
+    // 数字形式的优先级只用于队列，不传给 fetch
+    const { priority, ...options } = context.options;
+    const requestInit = {
+      ...(typeof priority === "number" ? options : context.options),
+      ...(signal && { signal }),
+    } as RequestInit;
 
-    try {
-      // 发送请求
-      context.response = await fetch(
-        context.request,
-        context.options as RequestInit
+    // 统计上传进度时以流的形式发送请求体
+    // 只修改 requestInit，重试时仍然使用 context.options 中原始的请求体
+    const uploadBody =
+      context.options.onUploadProgress &&
+      isPayloadMethod(context.options.method) &&
+      getBodyStream(context.options.body);
+    if (uploadBody) {
+      requestInit.body = withProgress(
+        uploadBody.stream,
+        uploadBody.total ?? getContentLength(context.options.headers),
+        context.options.onUploadProgress!
       );
+      (requestInit as { duplex?: "half" }).duplex = "half";
+    }
+
+    // 请求名额，请求完成（响应体读取完成或失败）后释放
+    let release: (() => void) | undefined;
+
+    // 对冲请求添加在 signal 上的监听器，请求完成后移除
+    let cleanupHedge: (() => void) | undefined;
+
+    // 请求完成时释放请求名额，并移除合并 signal 和对冲请求添加在用户 signal 上的监听器
+    const finish = () => {
+      release?.();
+      cleanupHedge?.();
+      cleanupSignal?.();
+    };
+
+    // 这个调用者是否发起了请求，以及是否由它自己发送了请求
+    // 在本地排队时失败的请求和合并的请求不由调用者记录到熔断器和限流器
+    let started = false;
+    let sent = false;
+
+    const startHeadersTimeout = () => {
+      if (timeouts.headers && headersTimeout === undefined) {
+        headersTimeout = setTimeout(() => {
+          controller!.abort(new TimeoutError("headers", timeouts.headers!));
+        }, timeouts.headers);
+      }
+    };
+
+    try {
+      if (state.staleResponse) {
+        // 使用过期响应代替错误时不再发送请求
+        context.response = state.staleResponse;
+      } else {
+        // 对冲请求只用于幂等的 GET 和 HEAD 请求
+        const hedgeDelay =
+          context.options.hedge &&
+          (!context.options.method ||
+            context.options.method === "GET" ||
+            context.options.method === "HEAD")
+            ? getHedgeDelay(context.options.hedge, origin, latencyTracker)
+            : undefined;
+
+        // shared 表示这是合并的共享请求，它的请求名额和请求结果属于共享请求本身，
+        // 而不是发起它的调用者，这个调用者中断后其他调用者仍然在等待它
+        const send = async (init: RequestInit, shared: boolean) => {
+          started = true;
+
+          // 超过并发限制时排队等待，等待的时间不算在响应头超时中
+          // 限流时等待令牌，在占用并发名额之后等待，这样令牌在真正发送时才会消耗
+          let slot: (() => void) | undefined;
+          try {
+            if (limiter) {
+              slot = await limiter.acquire(
+                origin,
+                getQueuePriority(priority),
+                init.signal || undefined
+              );
+            }
+            if (rateLimiter) {
+              await rateLimiter.acquire(origin, init.signal || undefined);
+            }
+          } catch (error) {
+            slot?.();
+            throw error;
+          }
+          if (!shared) {
+            release = slot;
+            sent = true;
+          }
+
+          // 设置了 hedge 时记录每次请求的延迟，作为百分位等待时间的样本
+          startHeadersTimeout();
+          const startTime = Date.now();
+          let response: Response;
+          try {
+            if (hedgeDelay === undefined) {
+              response = await requestFetch(context.request, init);
+            } else {
+              const hedged = await hedgeFetch(
+                requestFetch,
+                context.request,
+                init,
+                hedgeDelay,
+                typeof context.options.hedge === "object"
+                  ? (context.options.hedge.maxHedges ?? 1)
+                  : 1,
+                AbortController,
+                (latency) => latencyTracker.record(origin, latency)
+              );
+              response = hedged.response;
+              // 共享请求的 signal 只属于这一个共享请求，不需要移除监听器
+              if (!shared) {
+                cleanupHedge = hedged.cleanup;
+              }
+            }
+          } catch (error) {
+            if (shared) {
+              slot?.();
+              circuitBreaker?.record(origin, {
+                ...context,
+                error: error as Error,
+              });
+            }
+            throw error;
+          }
+          if (hedgeDelay === undefined && context.options.hedge) {
+            latencyTracker.record(origin, Date.now() - startTime);
+          }
+          if (!shared) {
+            return response;
+          }
+
+          circuitBreaker?.record(origin, { ...context, response });
+          rateLimiter?.record(origin, response);
+
+          // 共享的响应体读取完成、被取消或出错时才释放请求名额
+          if (!slot) {
+            return response;
+          }
+          if (!isReadableStream(response.body)) {
+            slot();
+            return response;
+          }
+          return withResponseBody(response, withFinalizer(response.body, slot));
+        };
+
+        // 合并同时进行的相同请求
+        // 共享的请求使用自己的 signal，这个调用者的 signal 只会让它自己停止等待
+        // 只有发起共享请求的调用者会排队和消耗令牌
+        const dedupeKey =
+          deduper && typeof context.request === "string"
+            ? getDedupeKey(
+                context.options.method || "GET",
+                context.request,
+                context.options.headers,
+                context.options.body,
+                dedupeOptions!
+              )
+            : undefined;
+
+        // 发送请求
+        const responsePromise =
+          dedupeKey === undefined
+            ? send(requestInit, false)
+            : deduper!.run(dedupeKey, signal, (sharedSignal) =>
+                send({ ...requestInit, signal: sharedSignal }, true)
+              );
+        if (!started) {
+          // 加入了已经在进行的共享请求，直接开始计时
+          startHeadersTimeout();
+        }
+        context.response = await responsePromise;
+      }
     } catch (error) {
       // 处理请求错误
+      clearTimeout(totalTimeout);
+      finish();
       context.error = error as Error;
+      if (sent) {
+        circuitBreaker?.record(origin, context);
+      }
       if (context.options.onRequestError) {
         await callHooks(
           context as FetchContext & { error: Error },
           context.options.onRequestError
         );
       }
-      return await onError(context);
+      return await onError(context, state);
     } finally {
-      // 清理超时定时器
-      if (abortTimeout) {
-        clearTimeout(abortTimeout);
-      }
+      // 清理等待响应头的超时定时器
+      clearTimeout(headersTimeout);
+    }
+
+    // 记录请求结果，用于熔断判断（缓存中的过期响应和合并的请求不算）
+    // 限流器根据响应头调整发送速度
+    if (sent) {
+      circuitBreaker?.record(origin, context);
+      rateLimiter?.record(origin, context.response);
+    }
+
+    // 返回的是 stale-while-revalidate 的过期响应时，后台重新验证完成后调用钩子
+    const revalidation = cache?.getRevalidation(context.response);
+    if (revalidation && context.options.onRevalidate) {
+      const onRevalidate = context.options.onRevalidate;
+      revalidation
+        .then(
+          (revalidatedResponse) => ({ revalidatedResponse }),
+          (error) => ({ revalidateError: error as Error })
+        )
+        .then((info) => callHooks(Object.assign(context, info), onRevalidate))
+        .catch(() => {});
     }
 
+    // 响应体超过大小限制时直接失败，不会重试
+    // 同时中断请求，这样缓存等其他读取响应体的地方也会停止读取
+    const maxResponseSize = context.options.maxResponseSize;
+    const createResponseTooLargeError = () => {
+      context.error = new Error(
+        `Response body exceeds the maximum size of ${maxResponseSize} bytes`
+      );
+      const error = createFetchError(context, ResponseTooLargeError);
+      if (Error.captureStackTrace) {
+        Error.captureStackTrace(error, $fetchRaw);
+      }
+      controller?.abort(error);
+      return error;
+    };
+
     // 处理响应体
     const hasBody =
       (context.response.body ||
@@ -275,36 +1034,157 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
       !nullBodyResponses.has(context.response.status) &&
       context.options.method !== "HEAD";
 
+    let finishOnBodyEnd = false;
     if (hasBody) {
+      // Content-Length 超过限制时不读取响应体
+      if (
+        maxResponseSize !== undefined &&
+        Number(context.response.headers.get("content-length")) > maxResponseSize
+      ) {
+        clearTimeout(totalTimeout);
+        finish();
+        const error = createResponseTooLargeError();
+        context.response.body?.cancel().catch(() => {});
+        throw error;
+      }
+
       // 确定响应类型
+      // 设置了 parseResponse 时按 JSON 处理，NDJSON 用它解析每一行，SSE 不使用它
       const responseType =
-        (context.options.parseResponse
+        (context.options.parseResponse &&
+        context.options.responseType !== "ndjson" &&
+        context.options.responseType !== "sse"
           ? "json"
           : context.options.responseType) ||
-        detectResponseType(context.response.headers.get("content-type") || "");
+        detectResponseType(
+          context.response.headers.get("content-type") || "",
+          parsers
+        );
+
+      // 设置了响应体超时时，包装响应体，数据块之间空闲太久时中断连接
+      let body: ReadableStream | undefined;
+      if (timeouts.body && isReadableStream(context.response.body)) {
+        const bodyTimeout = timeouts.body;
+        body = withIdleTimeout(context.response.body, bodyTimeout, () => {
+          const error = new TimeoutError("body", bodyTimeout);
+          controller?.abort(error);
+          return error;
+        });
+      }
+      // 设置了 maxResponseSize 时，包装响应体统计读取的字节数，超过限制时中断连接
+      if (
+        maxResponseSize !== undefined &&
+        isReadableStream(body || context.response.body)
+      ) {
+        body = withSizeLimit(
+          body || context.response.body!,
+          maxResponseSize,
+          createResponseTooLargeError
+        );
+      }
+
+      // 设置了下载进度回调时，包装响应体统计读取的字节数
+      const responseBody = body || context.response.body;
+      if (
+        context.options.onDownloadProgress &&
+        isReadableStream(responseBody)
+      ) {
+        body = withProgress(
+          responseBody,
+          getContentLength(context.response.headers),
+          context.options.onDownloadProgress
+        );
+      }
+      // 流式的响应体在读取完成或被取消时才释放请求名额
+      if (
+        (release || cleanupHedge || cleanupSignal) &&
+        streamResponseTypes.has(responseType) &&
+        isReadableStream(body || context.response.body)
+      ) {
+        body = withFinalizer(body || context.response.body!, finish);
+        finishOnBodyEnd = true;
+      }
+      // 包装后的响应体放到新的响应中，保留状态和 URL，解析器可以读取它们
+      const bodyResponse = body
+        ? withResponseBody(context.response, body)
+        : context.response;
 
       // 根据响应类型处理响应体
-      switch (responseType) {
-        case "json": {
-          // 处理 JSON 响应
-          const data = await context.response.text();
-          const parseFunction = context.options.parseResponse || destr;
-          context.response._data = parseFunction(data);
-          break;
-        }
-        case "stream": {
-          // 处理流式响应
-          context.response._data =
-            context.response.body || (context.response as any)._bodyInit;
-          break;
+      // 读取响应体时的错误（例如超时）与请求错误一样处理
+      try {
+        switch (responseType) {
+          case "json": {
+            // 处理 JSON 响应
+            const data = await bodyResponse.text();
+            const parseFunction = context.options.parseResponse || destr;
+            context.response._data = parseFunction(data);
+            break;
+          }
+          case "ndjson": {
+            // 处理 NDJSON 响应，按行解析为异步迭代器
+            // 设置了 schema 时逐行校验
+            const parseFunction = context.options.parseResponse || destr;
+            context.response._data = parseNDJSON(
+              body ||
+                context.response.body ||
+                (context.response as any)._bodyInit,
+              context.options.schema
+                ? (line) => validateResponseData(context, parseFunction(line))
+                : parseFunction
+            );
+            break;
+          }
+          case "sse": {
+            // 处理 Server-Sent Events 响应，按事件解析为异步迭代器
+            const eventStream = readEventStream(
+              body ||
+                context.response.body ||
+                (context.response as any)._bodyInit,
+              context.options.reconnect
+                ? (state, attempt, error) =>
+                    reconnectEventStream(context, state, attempt, error)
+                : undefined
+            );
+            context.response._data = eventStream;
+            break;
+          }
+          case "stream": {
+            // 处理流式响应
+            context.response._data =
+              body ||
+              context.response.body ||
+              (context.response as any)._bodyInit;
+            break;
+          }
+          default: {
+            // 处理其他类型的响应，注册的解析器优先
+            const parser = parsers?.[responseType];
+            context.response._data = parser
+              ? await parser.parse(bodyResponse)
+              : await bodyResponse[
+                  // 没有注册解析器时是 Response 自带的读取方法
+                  responseType as "blob" | "text" | "arrayBuffer"
+                ]();
+          }
         }
-        default: {
-          // 处理其他类型的响应
-          context.response._data = await context.response[responseType]();
+      } catch (error) {
+        clearTimeout(totalTimeout);
+        finish();
+        if (error instanceof ResponseTooLargeError) {
+          throw error;
         }
+        context.error = error as Error;
+        return await onError(context, state);
       }
     }
 
+    // 响应体已经读取完成，清理总超时定时器并释放请求名额
+    // 流式的响应体由调用者读取，读取完成后才释放
+    clearTimeout(totalTimeout);
+    if (!finishOnBodyEnd) {
+      finish();
+    }
+
     // 调用响应后的钩子函数
     if (context.options.onResponse) {
       await callHooks(
@@ -325,13 +1205,30 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
           context.options.onResponseError
         );
       }
-      return await onError(context);
+      // 错误响应的流式响应体通常不会被读取，重试前释放请求名额
+      finish();
+      return await onError(context, state);
+    }
+
+    // 按 schema 校验响应数据，流式的响应在读取时校验或不校验
+    if (
+      context.options.schema &&
+      hasBody &&
+      !streamResponseTypes.has(context.options.responseType!)
+    ) {
+      context.response._data = await validateResponseData(
+        context,
+        context.response._data
+      );
     }
 
     return context.response;
-  };
+  }
 
-  const $fetch = async function $fetch(request, options) {
+  const $fetch = async function $fetch(
+    request: FetchRequest,
+    options?: FetchOptions
+  ) {
     const r = await $fetchRaw(request, options);
     return r._data;
   } as $Fetch;
@@ -340,16 +1237,28 @@ export function createFetch(globalOptions: CreateFetchOptions = {}): $Fetch {
 
   $fetch.native = (...args) => fetch(...args);
 
-  $fetch.create = (defaultOptions = {}, customGlobalOptions = {}) =>
+  $fetch.circuitBreaker = circuitBreaker;
+
+  $fetch.queue = limiter;
+
+  $fetch.create = ((
+    defaultOptions: FetchOptions = {},
+    customGlobalOptions: CreateFetchOptions = {}
+  ) =>
     createFetch({
       ...globalOptions,
+      // 派生的实例默认共享同一个熔断器、缓存存储和限流器
+      circuitBreaker,
+      cache: cacheOptions,
+      rateLimit: rateLimiter,
       ...customGlobalOptions,
+      parsers: { ...parsers, ...customGlobalOptions.parsers },
       defaults: {
         ...globalOptions.defaults,
         ...customGlobalOptions.defaults,
         ...defaultOptions,
       },
-    });
+    })) as $Fetch["create"];
 
   return $fetch;
 }
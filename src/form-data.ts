@@ -0,0 +1,244 @@
+/**
+ * src/form-data.ts
+ *
+ * 这个文件负责把普通对象转换为 multipart/form-data 请求体。
+ * 主要包括：
+ * 1. 检测对象中是否包含文件（Blob、File、Buffer、流）
+ * 2. 把嵌套的对象和数组展开为表单字段，支持 a[b] 和 a.b 两种键格式
+ * 3. 为文件设置文件名和内容类型
+ */
+
+import type { Readable } from "node:stream";
+import type { FormDataOptions } from "./types";
+import { isPlainObject } from "./utils";
+
+/**
+ * 标记 createFormDataPart 创建的对象
+ */
+const formDataPartSymbol = Symbol.for("ofetch.formDataPart");
+
+/**
+ * 表单中的一个文件部分，由 createFormDataPart 创建
+ */
+export interface FormDataPart {
+  [formDataPartSymbol]: true;
+
+  /** 文件内容 */
+  value: FormDataFileValue;
+
+  /** 文件名 */
+  filename?: string;
+
+  /** 内容类型 */
+  contentType?: string;
+}
+
+/**
+ * 可以作为表单文件上传的值
+ */
+export type FormDataFileValue =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream
+  | Readable;
+
+/**
+ * 创建带有文件名和内容类型的表单文件部分
+ *
+ * @param value 文件内容
+ * @param options.filename 文件名，默认使用 File 的文件名，其他值为 "blob"
+ * @param options.contentType 内容类型，默认使用 Blob 的类型，其他值为 application/octet-stream
+ * @returns 表单文件部分，可以作为请求体对象中的值
+ *
+ * @example
+ * ```typescript
+ * await ofetch("/upload", {
+ *   method: "POST",
+ *   body: {
+ *     title: "Report",
+ *     file: createFormDataPart(buffer, { filename: "report.pdf", contentType: "application/pdf" }),
+ *   },
+ * });
+ * ```
+ */
+export function createFormDataPart(
+  value: FormDataFileValue,
+  options: { filename?: string; contentType?: string } = {}
+): FormDataPart {
+  return { [formDataPartSymbol]: true, value, ...options };
+}
+
+/**
+ * 检查值是否是表单文件部分
+ */
+function isFormDataPart(value: any): value is FormDataPart {
+  return !!value && value[formDataPartSymbol] === true;
+}
+
+/**
+ * 检查值是否是 Blob（包括 File）
+ */
+function isBlob(value: any): value is Blob {
+  return (
+    typeof value === "object" &&
+    typeof value.arrayBuffer === "function" &&
+    typeof value.type === "string" &&
+    typeof value.size === "number"
+  );
+}
+
+/**
+ * 检查值是否是流（Web ReadableStream 或 Node.js 流）
+ */
+function isStream(value: any): value is ReadableStream | Readable {
+  return (
+    typeof value === "object" &&
+    (typeof value.getReader === "function" || typeof value.pipe === "function")
+  );
+}
+
+/**
+ * 检查值是否是文件类型的值（Blob、File、Buffer、ArrayBuffer、流或表单文件部分）
+ */
+function isFileValue(value: any): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (isFormDataPart(value) ||
+      isBlob(value) ||
+      isStream(value) ||
+      value instanceof ArrayBuffer ||
+      ArrayBuffer.isView(value))
+  );
+}
+
+/**
+ * 检查普通对象（或数组）中是否包含文件
+ * 包含文件的对象会自动作为 multipart/form-data 发送
+ *
+ * @param value 请求体
+ * @returns 是否包含文件
+ */
+export function hasFileValue(value: any, depth = 0): boolean {
+  if (isFileValue(value)) {
+    return true;
+  }
+  if (!isPlainObject(value) || depth > 10) {
+    return false;
+  }
+  return Object.values(value).some((item) => hasFileValue(item, depth + 1));
+}
+
+/**
+ * 把文件类型的值转换为 Blob
+ * 流需要先读取完整内容
+ */
+async function toBlob(value: FormDataFileValue, type?: string): Promise<Blob> {
+  if (isBlob(value)) {
+    return type && type !== value.type
+      ? new Blob([value], { type })
+      : (value as Blob);
+  }
+  if (isStream(value)) {
+    if ("getReader" in value) {
+      const buffer = await new Response(value).arrayBuffer();
+      return new Blob([buffer], { type });
+    }
+    const chunks: BlobPart[] = [];
+    for await (const chunk of value) {
+      chunks.push(chunk);
+    }
+    return new Blob(chunks, { type });
+  }
+  return new Blob([value as BlobPart], { type });
+}
+
+/**
+ * 生成嵌套字段的键
+ */
+function getKey(
+  prefix: string,
+  key: string,
+  isArrayItem: boolean,
+  options: FormDataOptions
+): string {
+  if (!prefix) {
+    return key;
+  }
+  if (isArrayItem) {
+    switch (options.arrayFormat) {
+      case "brackets": {
+        return `${prefix}[]`;
+      }
+      case "repeat": {
+        return prefix;
+      }
+      default: {
+        return `${prefix}[${key}]`;
+      }
+    }
+  }
+  return options.notation === "dots" ? `${prefix}.${key}` : `${prefix}[${key}]`;
+}
+
+/**
+ * 把普通对象转换为 FormData
+ *
+ * 1. 嵌套的对象和数组按 notation / arrayFormat 展开为多个字段
+ * 2. Blob、File、Buffer、流作为文件上传，File 使用自己的文件名，其他值的文件名为 "blob"
+ * 3. Date 转换为 ISO 字符串，其他基本类型转换为字符串
+ * 4. null 和 undefined 会被忽略
+ *
+ * @param value 请求体对象
+ * @param FormData FormData 类
+ * @param options 键格式配置
+ * @returns FormData 对象
+ *
+ * @example
+ * ```typescript
+ * await toFormData({ user: { name: "a", tags: ["x", "y"] } }, FormData)
+ * // user[name]=a, user[tags][0]=x, user[tags][1]=y
+ * ```
+ */
+export async function toFormData(
+  value: Record<string, any>,
+  FormData: typeof globalThis.FormData,
+  options: FormDataOptions = {}
+): Promise<FormData> {
+  const formData = new FormData();
+
+  async function append(key: string, item: any, depth: number) {
+    if (item === undefined || item === null) {
+      return;
+    }
+    if (isFormDataPart(item)) {
+      const blob = await toBlob(item.value, item.contentType);
+      formData.append(
+        key,
+        blob,
+        item.filename || (item.value as File).name || "blob"
+      );
+    } else if (isFileValue(item)) {
+      const blob = await toBlob(item);
+      formData.append(key, blob, (item as File).name || "blob");
+    } else if (item instanceof Date) {
+      formData.append(key, item.toISOString());
+    } else if (isPlainObject(item) && depth < 10) {
+      const isArray = Array.isArray(item);
+      for (const [childKey, child] of Object.entries(item)) {
+        await append(getKey(key, childKey, isArray, options), child, depth + 1);
+      }
+    } else {
+      formData.append(
+        key,
+        typeof item === "object" ? JSON.stringify(item) : String(item)
+      );
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    await append(key, item, 0);
+  }
+  return formData;
+}
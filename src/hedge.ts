@@ -0,0 +1,198 @@
+/**
+ * src/hedge.ts
+ *
+ * 这个文件实现了对冲请求（hedged requests）。
+ * 对于幂等的 GET/HEAD 请求，如果第一个请求在一段时间内没有响应，
+ * 会再发送一个相同的请求，使用最先返回的响应，并中断其他请求。
+ * 这可以有效降低少数慢节点造成的长尾延迟。
+ *
+ * 参考：https://research.google/pubs/the-tail-at-scale/
+ */
+
+import type { Fetch, FetchRequest, HedgeOptions } from "./types";
+
+/**
+ * 每个 origin 保留的最近延迟样本数量
+ */
+const maxLatencySamples = 100;
+
+/**
+ * 使用百分位延迟之前至少需要的样本数量
+ */
+const minLatencySamples = 10;
+
+/**
+ * 按 origin 记录请求延迟（收到响应头的时间），用于计算百分位延迟
+ */
+export interface LatencyTracker {
+  /** 记录一次延迟（毫秒） */
+  record(origin: string, latency: number): void;
+
+  /** 获取某个 origin 的百分位延迟，样本不足时返回 undefined */
+  percentile(origin: string, percentile: number): number | undefined;
+}
+
+/**
+ * 创建延迟记录器
+ *
+ * @returns 延迟记录器，每个 fetch 实例一个
+ */
+export function createLatencyTracker(): LatencyTracker {
+  const samples = new Map<string, number[]>();
+  return {
+    record(origin, latency) {
+      let originSamples = samples.get(origin);
+      if (!originSamples) {
+        originSamples = [];
+        samples.set(origin, originSamples);
+      }
+      originSamples.push(latency);
+      if (originSamples.length > maxLatencySamples) {
+        originSamples.shift();
+      }
+    },
+    percentile(origin, percentile) {
+      const originSamples = samples.get(origin);
+      if (!originSamples || originSamples.length < minLatencySamples) {
+        return undefined;
+      }
+      const sorted = [...originSamples].sort((a, b) => a - b);
+      const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+      return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+    },
+  };
+}
+
+/**
+ * 计算发送对冲请求前的等待时间
+ *
+ * 设置了 percentile 且样本足够时使用观察到的百分位延迟，否则使用 delay
+ *
+ * @param options 对冲选项
+ * @param origin 请求的 origin
+ * @param tracker 延迟记录器
+ * @returns 等待时间（毫秒），返回 undefined 表示这次请求不对冲
+ */
+export function getHedgeDelay(
+  options: number | HedgeOptions,
+  origin: string,
+  tracker: LatencyTracker
+): number | undefined {
+  if (typeof options === "number") {
+    return options;
+  }
+  if (options.percentile !== undefined) {
+    const delay = tracker.percentile(origin, options.percentile);
+    if (delay !== undefined) {
+      return delay;
+    }
+  }
+  return options.delay;
+}
+
+/**
+ * 发送对冲请求
+ *
+ * 1. 立即发送第一个请求
+ * 2. 每经过 delay 毫秒仍没有响应，就再发送一个相同的请求，最多 maxHedges 个
+ * 3. 使用最先返回的响应，并中断其他请求
+ * 4. 只有所有已发送的请求都失败时才会失败，错误是第一个失败的请求的错误
+ *
+ * 每个请求都有自己的 AbortController，它们会跟随 init.signal 一起中断。
+ * 收到响应后 init.signal 仍然会中断胜出的请求，这样读取响应体时也可以中断连接，
+ * 请求结束后需要调用返回的 cleanup 移除 init.signal 上的监听器
+ *
+ * @param fetch fetch 函数
+ * @param request 请求 URL 或 Request 对象
+ * @param init 请求选项
+ * @param delay 发送下一个对冲请求前的等待时间（毫秒）
+ * @param maxHedges 最多额外发送的请求数量
+ * @param AbortController AbortController 类
+ * @param onLatency 收到响应时调用，参数是胜出请求的延迟
+ * @returns 最先返回的响应，以及移除监听器的 cleanup 函数
+ */
+export function hedgeFetch(
+  fetch: Fetch,
+  request: FetchRequest,
+  init: RequestInit,
+  delay: number,
+  maxHedges: number,
+  AbortController: typeof globalThis.AbortController,
+  onLatency?: (latency: number) => void
+): Promise<{ response: Response; cleanup: () => void }> {
+  return new Promise((resolve, reject) => {
+    const parentSignal = init.signal;
+    const controllers: AbortController[] = [];
+    let pending = 0;
+    let settled = false;
+    let firstError: unknown;
+    let hedgeTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    // 上层的 signal（用户传入或超时）中断时，中断所有请求
+    // 收到响应后 controllers 中只剩下胜出的请求
+    const onParentAbort = () => {
+      for (const controller of controllers) {
+        controller.abort(parentSignal?.reason);
+      }
+    };
+    parentSignal?.addEventListener("abort", onParentAbort);
+    const cleanup = () => {
+      parentSignal?.removeEventListener("abort", onParentAbort);
+    };
+
+    const settle = () => {
+      settled = true;
+      clearTimeout(hedgeTimeout);
+    };
+
+    const send = () => {
+      const controller = new AbortController();
+      if (parentSignal?.aborted) {
+        controller.abort(parentSignal.reason);
+      }
+      controllers.push(controller);
+      pending++;
+
+      const startTime = Date.now();
+      fetch(request, { ...init, signal: controller.signal }).then(
+        (response) => {
+          pending--;
+          if (settled) {
+            // 几乎同时返回的其他响应，释放它的响应体
+            response.body?.cancel().catch(() => {});
+            return;
+          }
+          settle();
+          onLatency?.(Date.now() - startTime);
+          // 中断其他请求，之后上层的 signal 只转发给胜出的请求
+          for (const other of controllers) {
+            if (other !== controller) {
+              other.abort();
+            }
+          }
+          controllers.splice(0, controllers.length, controller);
+          resolve({ response, cleanup });
+        },
+        (error) => {
+          pending--;
+          if (settled) {
+            return;
+          }
+          firstError = firstError ?? error;
+          // 其他请求仍在进行时继续等待它们
+          if (pending === 0) {
+            settle();
+            cleanup();
+            reject(firstError);
+          }
+        }
+      );
+
+      if (controllers.length <= maxHedges) {
+        hedgeTimeout = setTimeout(send, delay);
+      }
+    };
+
+    send();
+  });
+}
@@ -11,12 +11,16 @@
 
 import http from "node:http";
 import https, { AgentOptions } from "node:https";
+import { Duplex } from "node:stream";
+import zlib from "node:zlib";
 import nodeFetch, {
   Headers as _Headers,
   AbortController as _AbortController,
+  FormData as _FormData,
 } from "node-fetch-native";
 
 import { createFetch } from "./base";
+import type { CompressionEncoding } from "./types";
 
 // 重新导出基础模块的内容
 export * from "./base";
@@ -92,12 +96,59 @@ export const Headers = globalThis.Headers || _Headers;
  */
 export const AbortController = globalThis.AbortController || _AbortController;
 
+/**
+ * 导出 FormData 类
+ * 
+ * 如果全局环境中有原生 FormData，就使用它
+ * 否则使用 node-fetch-native 提供的实现
+ */
+export const FormData = globalThis.FormData || _FormData;
+
+/**
+ * node:zlib 中各个压缩格式对应的压缩流
+ */
+const zlibCompressors: Record<CompressionEncoding, () => zlib.Zlib & Duplex> = {
+  gzip: zlib.createGzip,
+  deflate: zlib.createDeflate,
+  br: zlib.createBrotliCompress,
+};
+
+/**
+ * 创建压缩请求体的流
+ *
+ * 优先使用原生的 CompressionStream，
+ * 没有 CompressionStream 或者它不支持这个格式（例如 br）时使用 node:zlib
+ *
+ * @param encoding 压缩格式
+ * @returns 压缩流
+ */
+export function createNodeCompressionStream(
+  encoding: CompressionEncoding
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+  if (globalThis.CompressionStream) {
+    try {
+      return new CompressionStream(encoding as CompressionFormat);
+    } catch {
+      // 不支持这个格式，使用 node:zlib
+    }
+  }
+  return Duplex.toWeb(
+    zlibCompressors[encoding]()
+  ) as unknown as ReadableWritablePair<Uint8Array, Uint8Array>;
+}
+
 /**
  * 创建并导出 ofetch 实例
  * 
- * 使用配置好的 fetch、Headers 和 AbortController 创建一个增强版的 fetch 实例
+ * 使用配置好的 fetch、Headers、AbortController、FormData 和压缩流创建一个增强版的 fetch 实例
  */
-export const ofetch = createFetch({ fetch, Headers, AbortController });
+export const ofetch = createFetch({
+  fetch,
+  Headers,
+  AbortController,
+  FormData,
+  createCompressionStream: createNodeCompressionStream,
+});
 
 /**
  * $fetch 是 ofetch 的别名
@@ -0,0 +1,192 @@
+/**
+ * src/queue.ts
+ *
+ * 这个文件实现了 fetch 实例的并发限制和优先级队列。
+ * 同时进行的请求达到上限后，新的请求会排队等待，
+ * 有请求完成时，按优先级从高到低（优先级相同时先来先发送）放行排队的请求。
+ * 排队时 signal 中断的请求会直接从队列中移除。
+ */
+
+import type {
+  ConcurrencyOptions,
+  FetchQueue,
+  FetchQueueStats,
+  FetchOptions,
+} from "./types";
+
+/**
+ * 排队等待的请求
+ */
+interface Waiter {
+  /** 优先级，越大越先发送 */
+  priority: number;
+
+  /** 放行这个请求 */
+  start: () => void;
+}
+
+/**
+ * 一个并发限制范围（整个实例或一个 origin）的状态
+ */
+interface Slot {
+  /** 正在进行的请求数量 */
+  active: number;
+
+  /** 排队等待的请求，按优先级从高到低排序 */
+  waiters: Waiter[];
+}
+
+/**
+ * 带有并发限制的请求队列
+ */
+export interface ConcurrencyLimiter extends FetchQueue {
+  /**
+   * 等待一个请求名额
+   *
+   * @param origin 请求的 origin
+   * @param priority 请求的优先级
+   * @param signal 中断时从队列中移除，并以中断原因失败
+   * @returns 释放名额的函数，请求完成后必须调用（多次调用只生效一次）
+   */
+  acquire(
+    origin: string,
+    priority: number,
+    signal?: AbortSignal
+  ): Promise<() => void>;
+}
+
+/**
+ * 原生 fetch 优先级在队列中对应的数字优先级
+ */
+const requestPriorities: Record<RequestPriority, number> = {
+  high: 1,
+  auto: 0,
+  low: -1,
+};
+
+/**
+ * 获取请求在队列中的数字优先级
+ *
+ * @param priority 请求的 priority 选项
+ * @returns 数字优先级，默认为 0
+ */
+export function getQueuePriority(priority: FetchOptions["priority"]): number {
+  if (typeof priority === "number") {
+    return priority;
+  }
+  return (priority && requestPriorities[priority]) || 0;
+}
+
+/**
+ * 创建带有并发限制的请求队列
+ *
+ * @param options 并发限制配置
+ * @returns 请求队列，每个 fetch 实例一个
+ */
+export function createConcurrencyLimiter(
+  options: ConcurrencyOptions
+): ConcurrencyLimiter {
+  const limit = Math.max(1, options.limit);
+  const slots = new Map<string, Slot>();
+
+  function getSlot(key: string): Slot {
+    let slot = slots.get(key);
+    if (!slot) {
+      slot = { active: 0, waiters: [] };
+      slots.set(key, slot);
+    }
+    return slot;
+  }
+
+  /**
+   * 放行排队的请求，直到达到上限
+   * 没有请求时删除这个范围的状态
+   */
+  function next(key: string, slot: Slot) {
+    while (slot.active < limit && slot.waiters.length > 0) {
+      slot.waiters.shift()!.start();
+    }
+    if (slot.active === 0 && slot.waiters.length === 0) {
+      slots.delete(key);
+    }
+  }
+
+  function createRelease(key: string, slot: Slot) {
+    slot.active++;
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      slot.active--;
+      next(key, slot);
+    };
+  }
+
+  function getStats(key?: string): FetchQueueStats {
+    const stats = { pending: 0, active: 0 };
+    for (const [slotKey, slot] of slots) {
+      if (key === undefined || slotKey === key) {
+        stats.pending += slot.waiters.length;
+        stats.active += slot.active;
+      }
+    }
+    return stats;
+  }
+
+  return {
+    get pending() {
+      return getStats().pending;
+    },
+
+    get active() {
+      return getStats().active;
+    },
+
+    getStats(origin) {
+      return getStats(options.perOrigin ? origin : "");
+    },
+
+    acquire(origin, priority, signal) {
+      const key = options.perOrigin ? origin : "";
+      const slot = getSlot(key);
+
+      if (signal?.aborted) {
+        next(key, slot);
+        return Promise.reject(signal.reason);
+      }
+      if (slot.active < limit) {
+        return Promise.resolve(createRelease(key, slot));
+      }
+
+      return new Promise((resolve, reject) => {
+        const onAbort = () => {
+          const index = slot.waiters.indexOf(waiter);
+          if (index !== -1) {
+            slot.waiters.splice(index, 1);
+            next(key, slot);
+            reject(signal!.reason);
+          }
+        };
+
+        const waiter: Waiter = {
+          priority,
+          start() {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(createRelease(key, slot));
+          },
+        };
+
+        // 插入到第一个优先级更低的请求之前
+        const index = slot.waiters.findIndex((w) => w.priority < priority);
+        if (index === -1) {
+          slot.waiters.push(waiter);
+        } else {
+          slot.waiters.splice(index, 0, waiter);
+        }
+        signal?.addEventListener("abort", onAbort);
+      });
+    },
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * src/rate-limit.ts
+ *
+ * 这个文件实现了客户端限流（令牌桶）。
+ * 令牌以 limit / interval 的速度补充，最多积累 burst 个，每次发送请求消耗一个令牌。
+ * 没有令牌时请求按顺序等待。
+ *
+ * 自适应模式会读取响应中的剩余配额（RateLimit-Remaining / X-RateLimit-Remaining）
+ * 和重置时间（Retry-After / RateLimit-Reset / X-RateLimit-Reset），
+ * 在配额重置之前放慢发送速度，避免服务器返回 429。
+ */
+
+import {
+  getRateLimitRemaining,
+  getRateLimitReset,
+  getRetryAfter,
+} from "./retry";
+import type { RateLimiter, RateLimitOptions } from "./types";
+
+/**
+ * 排队等待令牌的请求
+ */
+interface Waiter {
+  resolve: () => void;
+}
+
+/**
+ * 一个令牌桶（整个实例或一个 origin）
+ */
+interface Bucket {
+  /** 当前的令牌数量，可以是小数 */
+  tokens: number;
+
+  /** 上次补充令牌的时间戳 */
+  updatedAt: number;
+
+  /** 排队等待令牌的请求 */
+  waiters: Waiter[];
+
+  /** 下一次放行排队请求的定时器 */
+  timer?: ReturnType<typeof setTimeout>;
+
+  /** 自适应模式下，服务器配额允许的补充速度（每毫秒令牌数） */
+  adaptiveRate: number;
+
+  /** 自适应速度的截止时间戳（配额重置的时间） */
+  adaptiveUntil: number;
+}
+
+/**
+ * 创建限流器
+ *
+ * @param options 限流配置
+ * @returns 限流器实例，可以通过 createFetch 的 rateLimit 选项在多个实例之间共享
+ *
+ * @example
+ * ```typescript
+ * const rateLimiter = createRateLimiter({ limit: 10, interval: 1000, adaptive: true });
+ * const api = ofetch.create({}, { rateLimit: rateLimiter });
+ * ```
+ */
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  const { interval = 1000, adaptive = false, perOrigin = false } = options;
+  const burst = Math.max(1, options.burst ?? options.limit);
+  // 每毫秒补充的令牌数量
+  const rate = options.limit / interval;
+
+  const buckets = new Map<string, Bucket>();
+
+  function getBucket(origin: string): Bucket {
+    const key = perOrigin ? origin : "";
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        tokens: burst,
+        updatedAt: Date.now(),
+        waiters: [],
+        adaptiveRate: rate,
+        adaptiveUntil: 0,
+      };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * 补充从上次补充到现在的令牌
+   * 配额重置之前使用自适应速度，之后使用配置的速度
+   */
+  function refill(bucket: Bucket, now: number) {
+    let elapsed = now - bucket.updatedAt;
+    if (bucket.adaptiveUntil > bucket.updatedAt) {
+      const adaptiveElapsed = Math.min(
+        elapsed,
+        bucket.adaptiveUntil - bucket.updatedAt
+      );
+      bucket.tokens += adaptiveElapsed * Math.min(rate, bucket.adaptiveRate);
+      elapsed -= adaptiveElapsed;
+    }
+    bucket.tokens = Math.min(burst, bucket.tokens + elapsed * rate);
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * 计算得到下一个令牌需要等待的时间（毫秒）
+   */
+  function getWaitTime(bucket: Bucket, now: number): number {
+    let needed = 1 - bucket.tokens;
+    if (needed <= 0) {
+      return 0;
+    }
+    let wait = 0;
+    if (bucket.adaptiveUntil > now) {
+      const adaptiveRate = Math.min(rate, bucket.adaptiveRate);
+      const adaptiveTime = bucket.adaptiveUntil - now;
+      if (adaptiveRate > 0 && needed <= adaptiveRate * adaptiveTime) {
+        return Math.ceil(needed / adaptiveRate);
+      }
+      needed -= adaptiveRate * adaptiveTime;
+      wait = adaptiveTime;
+    }
+    return Math.ceil(wait + needed / rate);
+  }
+
+  /**
+   * 按顺序放行排队的请求，令牌不足时等待下一个令牌
+   */
+  function drain(bucket: Bucket) {
+    clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+    const now = Date.now();
+    refill(bucket, now);
+    while (bucket.waiters.length > 0 && bucket.tokens >= 1) {
+      bucket.tokens--;
+      bucket.waiters.shift()!.resolve();
+    }
+    if (bucket.waiters.length > 0) {
+      bucket.timer = setTimeout(() => drain(bucket), getWaitTime(bucket, now));
+    }
+  }
+
+  return {
+    acquire(origin, signal) {
+      if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+      }
+      const bucket = getBucket(origin);
+      refill(bucket, Date.now());
+      if (bucket.waiters.length === 0 && bucket.tokens >= 1) {
+        bucket.tokens--;
+        return Promise.resolve();
+      }
+
+      return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          const index = bucket.waiters.indexOf(waiter);
+          if (index !== -1) {
+            bucket.waiters.splice(index, 1);
+            reject(signal!.reason);
+          }
+        };
+        const waiter: Waiter = {
+          resolve() {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+          },
+        };
+        bucket.waiters.push(waiter);
+        signal?.addEventListener("abort", onAbort);
+        if (!bucket.timer) {
+          drain(bucket);
+        }
+      });
+    },
+
+    record(origin, response) {
+      if (!adaptive) {
+        return;
+      }
+      // 收到 429 说明配额已经用完
+      const remaining =
+        response.status === 429 ? 0 : getRateLimitRemaining(response);
+      if (remaining === undefined) {
+        return;
+      }
+
+      const bucket = getBucket(origin);
+      const now = Date.now();
+      refill(bucket, now);
+
+      // 在配额重置之前平均使用剩余的配额
+      // 已经发出但还没有响应的请求也会消耗配额，所以令牌不会超过剩余配额
+      const resetTime =
+        getRetryAfter(response) ?? getRateLimitReset(response) ?? interval;
+      bucket.tokens = Math.min(bucket.tokens, remaining);
+      bucket.adaptiveRate = resetTime > 0 ? remaining / resetTime : rate;
+      bucket.adaptiveUntil = now + resetTime;
+
+      if (bucket.waiters.length > 0) {
+        drain(bucket);
+      }
+    },
+  };
+}
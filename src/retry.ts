@@ -0,0 +1,275 @@
+/**
+ * src/retry.ts
+ *
+ * 这个文件包含了请求重试相关的工具函数。
+ * 主要包括：
+ * 1. 解析服务器返回的 Retry-After / RateLimit-Reset 等限流响应头
+ * 2. 内置的退避（backoff）策略，用于计算重试延迟
+ * 3. 网络错误分类，用于决定哪些没有响应的请求可以重试
+ */
+
+import type {
+  FetchErrorKind,
+  RetryDelayOptions,
+  RetryDelayStrategy,
+} from "./types";
+
+/**
+ * 解析服务器要求的重试等待时间
+ *
+ * Retry-After 是通用的重试信号，对所有状态码都有效：秒数（delta-seconds）或 HTTP 日期。
+ * 没有 Retry-After 时，只有响应是 429 或剩余配额为 0 时才使用配额重置时间
+ * （RateLimit-Reset / X-RateLimit-Reset），其他错误响应中的这些头只是在报告配额。
+ *
+ * @param response 响应对象
+ * @returns 需要等待的毫秒数，如果没有相关响应头则返回 undefined
+ *
+ * @example
+ * ```typescript
+ * // Retry-After: 120
+ * getRetryAfter(response) // 120000
+ *
+ * // Retry-After: Wed, 21 Oct 2015 07:28:00 GMT
+ * getRetryAfter(response) // 距离该时间的毫秒数，已过去则为 0
+ * ```
+ */
+export function getRetryAfter(response?: Response): number | undefined {
+  if (!response) {
+    return undefined;
+  }
+
+  // Retry-After 可以是秒数，也可以是 HTTP 日期
+  const retryAfter = response.headers.get("retry-after")?.trim();
+  if (retryAfter) {
+    if (/^\d+$/.test(retryAfter)) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // 配额用完时，等到配额重置
+  if (response.status === 429 || getRateLimitRemaining(response) === 0) {
+    return getRateLimitReset(response);
+  }
+
+  return undefined;
+}
+
+/**
+ * 解析距离配额重置的时间
+ *
+ * 按以下顺序读取响应头，返回第一个有效值（毫秒）：
+ * 1. RateLimit-Reset：距离配额重置的秒数
+ * 2. X-RateLimit-Reset：秒数，或 Unix 时间戳（秒/毫秒，例如 GitHub API）
+ *
+ * @param response 响应对象
+ * @returns 距离配额重置的毫秒数，如果没有相关响应头则返回 undefined
+ */
+export function getRateLimitReset(response: Response): number | undefined {
+  // RateLimit-Reset（IETF 草案）总是秒数
+  const rateLimitReset = parseSeconds(response.headers.get("ratelimit-reset"));
+  if (rateLimitReset !== undefined) {
+    return rateLimitReset * 1000;
+  }
+
+  // X-RateLimit-Reset 在不同服务中可能是秒数或 Unix 时间戳
+  const xRateLimitReset = parseSeconds(
+    response.headers.get("x-ratelimit-reset")
+  );
+  if (xRateLimitReset !== undefined) {
+    if (xRateLimitReset > 1e12) {
+      // 毫秒时间戳
+      return Math.max(0, xRateLimitReset - Date.now());
+    }
+    if (xRateLimitReset > 1e9) {
+      // 秒时间戳
+      return Math.max(0, xRateLimitReset * 1000 - Date.now());
+    }
+    return xRateLimitReset * 1000;
+  }
+
+  return undefined;
+}
+
+/**
+ * 读取响应中的剩余配额
+ *
+ * @param response 响应对象
+ * @returns 剩余的请求数量，没有相关响应头时返回 undefined
+ */
+export function getRateLimitRemaining(response: Response): number | undefined {
+  const value =
+    response.headers.get("ratelimit-remaining") ??
+    response.headers.get("x-ratelimit-remaining");
+  if (value === null) {
+    return undefined;
+  }
+  const remaining = Number.parseInt(value, 10);
+  return Number.isNaN(remaining) ? undefined : Math.max(0, remaining);
+}
+
+/**
+ * 将响应头的值解析为非负秒数
+ */
+function parseSeconds(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value.trim());
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/**
+ * 各个退避策略的默认参数
+ * decorrelated-jitter 的 factor 是相对上一次延迟的倍数，参考 AWS 的推荐值 3
+ */
+const backoffDefaults: Record<
+  RetryDelayStrategy,
+  Required<Omit<RetryDelayOptions, "strategy">>
+> = {
+  exponential: { base: 500, factor: 2, max: 30_000 },
+  "full-jitter": { base: 500, factor: 2, max: 30_000 },
+  "decorrelated-jitter": { base: 500, factor: 3, max: 30_000 },
+  linear: { base: 500, factor: 1, max: 30_000 },
+};
+
+/**
+ * 根据退避策略计算重试延迟
+ *
+ * 支持的策略：
+ * - exponential：base * factor ^ (attempt - 1)
+ * - full-jitter：0 到 exponential 延迟之间的随机值
+ * - decorrelated-jitter：base 到 上一次延迟 * factor 之间的随机值
+ * - linear：base * (1 + factor * (attempt - 1))
+ *
+ * 所有策略的结果都不会超过 max。
+ * 参考：https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ *
+ * @param options 策略名称或带参数的策略配置
+ * @param attempt 刚刚失败的是第几次尝试（从 1 开始）
+ * @param previousDelay 上一次重试使用的延迟，仅 decorrelated-jitter 使用
+ * @returns 延迟毫秒数
+ *
+ * @example
+ * ```typescript
+ * getBackoffDelay("exponential", 3) // 2000
+ * getBackoffDelay({ strategy: "linear", base: 100 }, 3) // 300
+ * ```
+ */
+export function getBackoffDelay(
+  options: RetryDelayStrategy | RetryDelayOptions,
+  attempt: number,
+  previousDelay?: number
+): number {
+  const config: RetryDelayOptions =
+    typeof options === "string" ? { strategy: options } : options;
+  const defaults = backoffDefaults[config.strategy];
+  const base = config.base ?? defaults.base;
+  const factor = config.factor ?? defaults.factor;
+  const max = config.max ?? defaults.max;
+  const exponential = base * Math.pow(factor, Math.max(0, attempt - 1));
+
+  let delay: number;
+  switch (config.strategy) {
+    case "full-jitter": {
+      delay = Math.random() * Math.min(max, exponential);
+      break;
+    }
+    case "decorrelated-jitter": {
+      const upper = Math.max(base, (previousDelay ?? base) * factor);
+      delay = base + Math.random() * (upper - base);
+      break;
+    }
+    case "linear": {
+      delay = base * (1 + factor * Math.max(0, attempt - 1));
+      break;
+    }
+    default: {
+      delay = exponential;
+    }
+  }
+
+  return Math.round(Math.min(max, delay));
+}
+
+/**
+ * 底层 fetch（undici / node-fetch-native）错误码到错误类型的映射
+ *
+ * 参考：
+ * - https://nodejs.org/api/errors.html#common-system-errors
+ * - https://undici.nodejs.org/#/docs/api/Errors
+ */
+const errorCodeKinds: Record<string, FetchErrorKind> = {
+  // DNS 解析失败
+  ENOTFOUND: "dns",
+  EAI_AGAIN: "dns",
+  EAI_FAIL: "dns",
+  EAI_NODATA: "dns",
+  // 连接被拒绝、重置或网络不可达
+  ECONNRESET: "connection",
+  ECONNREFUSED: "connection",
+  ECONNABORTED: "connection",
+  EPIPE: "connection",
+  EHOSTUNREACH: "connection",
+  EHOSTDOWN: "connection",
+  ENETUNREACH: "connection",
+  ENETDOWN: "connection",
+  UND_ERR_SOCKET: "connection",
+  UND_ERR_CLOSED: "connection",
+  // 连接或读取超时
+  ETIMEDOUT: "timeout",
+  ESOCKETTIMEDOUT: "timeout",
+  UND_ERR_CONNECT_TIMEOUT: "timeout",
+  UND_ERR_HEADERS_TIMEOUT: "timeout",
+  UND_ERR_BODY_TIMEOUT: "timeout",
+  // TLS 握手或证书校验失败
+  EPROTO: "tls",
+  DEPTH_ZERO_SELF_SIGNED_CERT: "tls",
+  SELF_SIGNED_CERT_IN_CHAIN: "tls",
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: "tls",
+  UNABLE_TO_GET_ISSUER_CERT: "tls",
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY: "tls",
+  HOSTNAME_MISMATCH: "tls",
+};
+
+/**
+ * 对没有收到响应的请求错误进行分类
+ *
+ * 会沿着 error.cause 链查找错误码，因为 undici 会把底层的系统错误
+ * 包装在 `TypeError: fetch failed` 的 cause 中，而 node-fetch 直接在错误上设置 code。
+ *
+ * @param error 请求错误
+ * @returns 错误类型
+ *
+ * @example
+ * ```typescript
+ * // TypeError: fetch failed { cause: Error { code: "ECONNRESET" } }
+ * getFetchErrorKind(error) // "connection"
+ *
+ * // TypeError: fetch failed { cause: Error { code: "CERT_HAS_EXPIRED" } }
+ * getFetchErrorKind(error) // "tls"
+ * ```
+ */
+export function getFetchErrorKind(error: unknown): FetchErrorKind {
+  let current = error as (Error & { code?: unknown }) | undefined;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current.name === "TimeoutError") {
+      return "timeout";
+    }
+    if (current.name === "AbortError") {
+      return "abort";
+    }
+    const code = typeof current.code === "string" ? current.code : "";
+    if (code in errorCodeKinds) {
+      return errorCodeKinds[code];
+    }
+    if (/^(?:CERT_|ERR_TLS_|ERR_SSL_)/.test(code)) {
+      return "tls";
+    }
+    current = current.cause as typeof current;
+  }
+  return "unknown";
+}
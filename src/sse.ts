@@ -0,0 +1,191 @@
+/**
+ * src/sse.ts
+ *
+ * 这个文件负责解析 Server-Sent Events（text/event-stream）响应体。
+ * 主要包括：
+ * 1. 按 HTML 标准解析事件流中的 event、data、id、retry 字段
+ * 2. 连接断开后按服务器的 retry 时间重新连接，并通过 Last-Event-ID 继续接收事件
+ *
+ * 参考：https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+
+import { isReadableStream, readChunks } from "./stream";
+import type { ServerSentEvent } from "./types";
+
+/**
+ * 事件流的响应体，可以是 Web ReadableStream 或 Node.js 流
+ */
+export type EventStreamBody =
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * 跨越多个连接保留的事件流状态
+ */
+export interface EventStreamState {
+  /** 最后收到的事件 ID，重新连接时通过 Last-Event-ID 请求头发送 */
+  lastEventId?: string;
+
+  /** 服务器要求的重新连接等待时间（毫秒） */
+  retry?: number;
+}
+
+/**
+ * 重新连接事件流
+ *
+ * 重新连接失败（抛出错误）时会以这个错误再次调用，抛出传入的 error 表示不再重新连接。
+ *
+ * @param state 事件流状态
+ * @param attempt 第几次连续重新连接（从 1 开始，收到事件后重新计数）
+ * @param error 导致连接断开或上一次重新连接失败的错误，服务器正常结束响应时为 undefined
+ * @returns 新的响应体，返回 undefined 时不再重新连接
+ */
+export type EventStreamReconnect = (
+  state: EventStreamState,
+  attempt: number,
+  error?: unknown
+) => Promise<EventStreamBody | undefined>;
+
+/**
+ * 匹配事件流中的换行符（CRLF、LF 或 CR）
+ */
+const LINE_RE = /\r\n|\r|\n/;
+
+/**
+ * 解析一个连接的事件流
+ *
+ * 只有包含 data 字段的事件才会返回，没有空行结尾的最后一个事件会被丢弃。
+ * id 和 retry 字段会更新 state，所以重新连接后仍然可以使用。
+ *
+ * @param stream 响应体
+ * @param state 事件流状态
+ * @returns 事件的异步迭代器
+ */
+export async function* parseEventStream(
+  stream: EventStreamBody,
+  state: EventStreamState = {}
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  const decoder = new TextDecoder();
+  const chunks = isReadableStream(stream) ? readChunks(stream) : stream;
+
+  let buffer = "";
+  let event: string | undefined;
+  let data: string[] = [];
+  let retry: number | undefined;
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    // 末尾的 \r 可能是被分到两个数据块的 \r\n，留到下一个数据块再处理
+    const end = buffer.endsWith("\r") ? buffer.length - 1 : buffer.length;
+    const lines = buffer.slice(0, end).split(LINE_RE);
+    buffer = lines.pop()! + buffer.slice(end);
+
+    for (const line of lines) {
+      // 空行表示一个事件结束
+      if (line === "") {
+        if (data.length > 0) {
+          yield {
+            event: event || "message",
+            data: data.join("\n"),
+            id: state.lastEventId || undefined,
+            retry,
+          };
+        }
+        event = undefined;
+        data = [];
+        retry = undefined;
+        continue;
+      }
+
+      // 以冒号开头的行是注释
+      if (line.startsWith(":")) {
+        continue;
+      }
+
+      const index = line.indexOf(":");
+      const field = index === -1 ? line : line.slice(0, index);
+      let value = index === -1 ? "" : line.slice(index + 1);
+      if (value.startsWith(" ")) {
+        value = value.slice(1);
+      }
+
+      switch (field) {
+        case "event": {
+          event = value;
+          break;
+        }
+        case "data": {
+          data.push(value);
+          break;
+        }
+        case "id": {
+          if (!value.includes("\0")) {
+            state.lastEventId = value;
+          }
+          break;
+        }
+        case "retry": {
+          if (/^\d+$/.test(value)) {
+            retry = Number(value);
+            state.retry = retry;
+          }
+          break;
+        }
+        // 忽略未知的字段
+      }
+    }
+  }
+}
+
+/**
+ * 读取事件流，设置了 reconnect 时在连接断开后重新连接
+ *
+ * 只在消费者读取下一个事件时才读取上游的数据，提前结束迭代时会取消响应体。
+ *
+ * @param stream 第一个连接的响应体
+ * @param reconnect 重新连接的函数，不设置时连接断开后结束迭代
+ * @returns 所有连接的事件的异步迭代器
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readEventStream(response.body)) {
+ *   console.log(event.event, event.data);
+ * }
+ * ```
+ */
+export async function* readEventStream(
+  stream: EventStreamBody,
+  reconnect?: EventStreamReconnect
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  const state: EventStreamState = {};
+  let body: EventStreamBody | undefined = stream;
+  let attempt = 0;
+
+  while (body) {
+    let error: unknown;
+    try {
+      for await (const event of parseEventStream(body, state)) {
+        attempt = 0;
+        yield event;
+      }
+    } catch (error_) {
+      if (!reconnect) {
+        throw error_;
+      }
+      error = error_;
+    }
+    body = undefined;
+    while (reconnect) {
+      try {
+        body = await reconnect(state, ++attempt, error);
+        break;
+      } catch (error_) {
+        // 重新连接的函数抛出传入的错误时不再重试
+        if (error_ === error) {
+          throw error_;
+        }
+        error = error_;
+      }
+    }
+  }
+}
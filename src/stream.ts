@@ -0,0 +1,322 @@
+/**
+ * src/stream.ts
+ *
+ * 这个文件包含了处理响应体流（ReadableStream）的工具函数。
+ * 主要包括：
+ * 1. 读取数据块之间的空闲超时
+ * 2. 按行解析 NDJSON（JSON Lines）响应体
+ * 3. 统计上传和下载的进度
+ * 4. 限制响应体的大小
+ * 5. 在流结束或被取消时执行清理
+ * 6. 替换响应的响应体
+ */
+
+import type { FetchProgress } from "./types";
+
+/**
+ * 检查响应体是否是 Web ReadableStream
+ * 旧版 Node.js 中的 node-fetch 返回的是 Node.js 流，不能使用这里的工具函数
+ *
+ * @param body 响应体
+ * @returns 是否是 ReadableStream
+ */
+export function isReadableStream(body: unknown): body is ReadableStream {
+  return !!body && typeof (body as ReadableStream).getReader === "function";
+}
+
+/**
+ * 为流添加空闲超时
+ *
+ * 只有在等待上游数据时才会计时，消费者暂停读取不会触发超时。
+ * 超时后，新的流会以 createError 返回的错误结束，并取消上游的流。
+ *
+ * @param stream 原始的流
+ * @param timeout 两个数据块之间的最长空闲时间（毫秒）
+ * @param createError 超时时调用，返回用于结束流的错误
+ * @returns 带有空闲超时的新流
+ *
+ * @example
+ * ```typescript
+ * const body = withIdleTimeout(response.body, 5000, () => new Error("idle"));
+ * ```
+ */
+export function withIdleTimeout<T>(
+  stream: ReadableStream<T>,
+  timeout: number,
+  createError: () => Error
+): ReadableStream<T> {
+  const reader = stream.getReader();
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        let idleTimeout: ReturnType<typeof setTimeout> | undefined;
+        try {
+          const result = await Promise.race([
+            reader.read(),
+            new Promise<never>((_, reject) => {
+              idleTimeout = setTimeout(() => reject(createError()), timeout);
+            }),
+          ]);
+          if (result.done) {
+            controller.close();
+          } else {
+            controller.enqueue(result.value);
+          }
+        } catch (error) {
+          controller.error(error);
+          reader.cancel(error).catch(() => {});
+        } finally {
+          clearTimeout(idleTimeout);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    },
+    // 不预读数据，只在消费者读取时才向上游请求
+    { highWaterMark: 0 }
+  );
+}
+
+/**
+ * 在流读取完成、出错或被取消时调用 onFinish，只会调用一次
+ *
+ * @param stream 原始的流
+ * @param onFinish 流结束时调用
+ * @returns 结束时会调用 onFinish 的新流
+ */
+export function withFinalizer<T>(
+  stream: ReadableStream<T>,
+  onFinish: () => void
+): ReadableStream<T> {
+  const reader = stream.getReader();
+  let finished = false;
+  const finish = () => {
+    if (!finished) {
+      finished = true;
+      onFinish();
+    }
+  };
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        try {
+          const result = await reader.read();
+          if (result.done) {
+            finish();
+            controller.close();
+          } else {
+            controller.enqueue(result.value);
+          }
+        } catch (error) {
+          finish();
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        finish();
+        return reader.cancel(reason);
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+/**
+ * 用新的响应体替换响应的响应体，保留状态、响应头和 URL
+ *
+ * @param response 原始的响应
+ * @param body 新的响应体
+ * @returns 使用新响应体的响应
+ */
+export function withResponseBody(
+  response: Response,
+  body: ReadableStream
+): Response {
+  const newResponse = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  Object.defineProperty(newResponse, "url", { value: response.url });
+  Object.defineProperty(newResponse, "redirected", {
+    value: response.redirected,
+  });
+  return newResponse;
+}
+
+/**
+ * 按顺序读取流中的数据块
+ * 提前结束迭代时取消流，上游不再发送数据
+ *
+ * @param stream Web ReadableStream
+ * @returns 数据块的异步迭代器
+ */
+export async function* readChunks<T>(
+  stream: ReadableStream<T>
+): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  let done = false;
+  try {
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      if (!result.done) {
+        yield result.value;
+      }
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 把 NDJSON（JSON Lines）响应体解析为异步迭代器
+ *
+ * 只在消费者读取下一项时才读取上游的数据，读取速度由消费者决定。
+ * 提前结束迭代（例如 break）时会取消响应体，中断连接。
+ * 空行会被跳过，每行末尾的 \r 会被去掉。
+ *
+ * @param stream 响应体，可以是 Web ReadableStream 或 Node.js 流
+ * @param parse 解析每一行的函数，可以返回 Promise
+ * @returns 按顺序返回每一行解析结果的异步迭代器
+ *
+ * @example
+ * ```typescript
+ * for await (const item of parseNDJSON(response.body, JSON.parse)) {
+ *   console.log(item);
+ * }
+ * ```
+ */
+export async function* parseNDJSON<T = any>(
+  stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  parse: (line: string) => T | Promise<T>
+): AsyncGenerator<T, void, undefined> {
+  const decoder = new TextDecoder();
+  const chunks = isReadableStream(stream) ? readChunks(stream) : stream;
+  let buffer = "";
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      const text = line.trim();
+      if (text) {
+        yield parse(text);
+      }
+    }
+  }
+  // 最后一行可以没有换行符
+  const text = (buffer + decoder.decode()).trim();
+  if (text) {
+    yield parse(text);
+  }
+}
+
+/**
+ * 读取 Content-Length 头中的字节数
+ * 压缩的内容读取到的是解压后的数据，与 Content-Length 不一致，所以返回 undefined
+ *
+ * @param headers 请求头或响应头
+ * @returns 字节数，未知时返回 undefined
+ */
+export function getContentLength(headers: Headers): number | undefined {
+  const encoding = headers.get("content-encoding");
+  const value = headers.get("content-length");
+  if (!value || (encoding && encoding !== "identity")) {
+    return undefined;
+  }
+  const length = Number.parseInt(value, 10);
+  return Number.isNaN(length) ? undefined : length;
+}
+
+/**
+ * 把请求体转换为可以统计进度的流
+ *
+ * @param body 请求体
+ * @returns 请求体流和总字节数，不是 Blob 或 Web ReadableStream 时返回 undefined
+ */
+export function getBodyStream(
+  body: unknown
+): { stream: ReadableStream<Uint8Array>; total?: number } | undefined {
+  if (isReadableStream(body)) {
+    return { stream: body };
+  }
+  if (
+    !!body &&
+    typeof (body as Blob).stream === "function" &&
+    typeof (body as Blob).size === "number"
+  ) {
+    return { stream: (body as Blob).stream(), total: (body as Blob).size };
+  }
+  return undefined;
+}
+
+/**
+ * 为流添加进度统计
+ * 每个数据块经过时调用 onProgress，报告已经传输的字节数、总字节数和平均速度
+ *
+ * @param stream 原始的流
+ * @param total 总字节数，未知时为 undefined
+ * @param onProgress 进度回调
+ * @returns 带有进度统计的新流
+ *
+ * @example
+ * ```typescript
+ * const body = withProgress(response.body, 1024, ({ loaded }) => console.log(loaded));
+ * ```
+ */
+export function withProgress(
+  stream: ReadableStream<Uint8Array>,
+  total: number | undefined,
+  onProgress: (progress: FetchProgress) => void
+): ReadableStream<Uint8Array> {
+  const startTime = Date.now();
+  let loaded = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.byteLength;
+        controller.enqueue(chunk);
+        const elapsed = Date.now() - startTime;
+        onProgress({
+          loaded,
+          total,
+          rate: elapsed > 0 ? Math.round((loaded / elapsed) * 1000) : 0,
+        });
+      },
+    })
+  );
+}
+
+/**
+ * 为流添加大小限制
+ * 读取的字节数超过限制时，新的流会以 createError 返回的错误结束，并取消上游的流
+ *
+ * @param stream 原始的流
+ * @param maxSize 最大字节数
+ * @param createError 超过限制时调用，返回用于结束流的错误
+ * @returns 带有大小限制的新流
+ */
+export function withSizeLimit(
+  stream: ReadableStream<Uint8Array>,
+  maxSize: number,
+  createError: () => Error
+): ReadableStream<Uint8Array> {
+  let size = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        if (size > maxSize) {
+          controller.error(createError());
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
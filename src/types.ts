@@ -17,6 +17,15 @@
  * 它是一个可以直接调用的函数，也包含了一些额外的方法
  */
 export interface $Fetch {
+  /**
+   * 设置了 schema 的 fetch 函数
+   * 响应数据会按 schema 校验，返回值的类型从 schema 的输出类型推断
+   */
+  <S extends StandardSchemaV1, R extends SchemaResponseType = "json">(
+    request: FetchRequest,
+    options: FetchOptions<R> & { schema: S }
+  ): Promise<SchemaResponseData<R, S>>;
+
   /**
    * 主要的 fetch 函数
    * @param request 请求的 URL 或 Request 对象
@@ -35,6 +44,10 @@ export interface $Fetch {
    * 获取原始响应对象的方法
    * 与普通调用不同，它返回完整的响应对象，而不仅仅是数据
    */
+  raw<S extends StandardSchemaV1, R extends SchemaResponseType = "json">(
+    request: FetchRequest,
+    options: FetchOptions<R> & { schema: S }
+  ): Promise<FetchResponse<SchemaResponseData<R, S>>>;
   raw<T = any, R extends ResponseType = "json">(
     request: FetchRequest,
     options?: FetchOptions<R>
@@ -54,6 +67,27 @@ export interface $Fetch {
    * @param globalOptions 全局选项配置
    */
   create(defaults: FetchOptions, globalOptions?: CreateFetchOptions): $Fetch;
+
+  /**
+   * 创建一个按 API 路由定义检查类型的实例
+   * 路径、请求方法、路径参数、查询参数、请求体和响应数据都从 Api 中的路由定义得到
+   */
+  create<Api>(
+    defaults: FetchOptions,
+    globalOptions?: CreateFetchOptions
+  ): TypedFetch<Api>;
+
+  /**
+   * 实例使用的熔断器
+   * 只有设置了 circuitBreaker 选项时才存在，可以用来查看或重置熔断器状态
+   */
+  circuitBreaker?: CircuitBreaker;
+
+  /**
+   * 实例的请求队列
+   * 只有设置了 concurrency 选项时才存在，可以用来查看等待中和进行中的请求数量
+   */
+  queue?: FetchQueue;
 }
 
 // --------------------------
@@ -65,7 +99,7 @@ export interface $Fetch {
  * 它扩展了标准的 RequestInit 接口，并添加了许多额外的选项
  */
 export interface FetchOptions<R extends ResponseType = ResponseType, T = any>
-  extends Omit<RequestInit, "body">,
+  extends Omit<RequestInit, "body" | "priority">,
     FetchHooks<T, R> {
   /** 基础 URL，会被添加到每个请求的前面 */
   baseURL?: string;
@@ -75,6 +109,18 @@ export interface FetchOptions<R extends ResponseType = ResponseType, T = any>
    * 如果是对象，会自动转换为 JSON
    */
   body?: RequestInit["body"] | Record<string, any>;
+
+  /**
+   * 对象请求体的编码方式
+   * - json：转换为 JSON（默认）
+   * - form-data：转换为 multipart/form-data，对象中包含 Blob、File、Buffer 或流时会自动使用
+   * - urlencoded：转换为 application/x-www-form-urlencoded，编码规则与查询参数相同
+   * - 其他值作为内容类型，使用 serializers 中注册的序列化函数，并设置对应的 Content-Type 和 Accept 头
+   */
+  bodyType?: BodyType;
+
+  /** bodyType 为 form-data 时，嵌套对象和数组的键格式 */
+  formDataOptions?: FormDataOptions;
   
   /** 是否忽略响应错误（即使状态码不是 2xx） */
   ignoreResponseError?: boolean;
@@ -84,12 +130,45 @@ export interface FetchOptions<R extends ResponseType = ResponseType, T = any>
   
   /** 查询参数，会被添加到 URL 的 ? 后面 */
   query?: Record<string, any>;
+
+  /**
+   * 路径参数，替换请求路径中的 :name 部分，值会经过 URL 编码
+   * @example { pathParams: { id: 1 } } 把 "/users/:id" 替换为 "/users/1"
+   */
+  pathParams?: Record<string, string | number>;
   
-  /** 自定义响应解析函数 */
+  /** 自定义响应解析函数，responseType 为 "ndjson" 时用于解析每一行 */
   parseResponse?: (responseText: string) => any;
+
+  /**
+   * 自定义请求体序列化函数，用于代替 JSON.stringify
+   * 与 parseResponse 对应，默认的 Content-Type 和 Accept 头仍然是 application/json
+   */
+  serializeBody?: BodySerializer;
+
+  /**
+   * 按内容类型注册的请求体序列化函数，例如 { "application/msgpack": encode }
+   * bodyType 或请求的 Content-Type 头与注册的内容类型相同时使用
+   * 与默认选项中的 serializers 合并
+   */
+  serializers?: Record<string, BodySerializer>;
+
+  /**
+   * 压缩请求体，并设置 Content-Encoding 请求头
+   * 可以是压缩格式或压缩配置，默认小于 1024 字节的请求体不压缩
+   * ReadableStream 请求体总是会压缩，并以流的形式发送
+   */
+  compress?: CompressionEncoding | CompressOptions | false;
   
   /** 响应类型，如 "json", "text", "blob" 等 */
   responseType?: R;
+
+  /**
+   * responseType 为 "sse" 时，连接断开后是否重新连接
+   * 重新连接的请求带有 Last-Event-ID 请求头，等待时间使用服务器的 retry 字段或 retryDelay（默认 3 秒）
+   * 数字表示没有收到新事件时最多连续重新连接的次数，true 表示不限制
+   */
+  reconnect?: boolean | number;
   
   /**
    * @experimental 设置为 "half" 可以启用双工流（duplex streaming）
@@ -97,6 +176,32 @@ export interface FetchOptions<R extends ResponseType = ResponseType, T = any>
    * @see https://fetch.spec.whatwg.org/#enumdef-requestduplex
    */
   duplex?: "half" | undefined;
+
+  /**
+   * 上传进度回调，仅支持 Blob（包括 File）和 ReadableStream 请求体
+   * 请求体会以流的形式发送（duplex: "half"），浏览器中需要 HTTP/2
+   */
+  onUploadProgress?: (progress: FetchProgress) => void;
+
+  /**
+   * 下载进度回调，每收到一个数据块调用一次
+   * 对所有响应类型都有效，"stream" 响应在读取时报告进度
+   */
+  onDownloadProgress?: (progress: FetchProgress) => void;
+
+  /**
+   * 响应体的最大字节数
+   * Content-Length 超过限制时不读取响应体，读取时超过限制会中断连接，
+   * 两种情况都以 ResponseTooLargeError 失败，不会重试
+   */
+  maxResponseSize?: number;
+
+  /**
+   * 校验响应数据的 Standard Schema（例如 zod、valibot、arktype 的 schema）
+   * 校验通过时使用 schema 输出的数据，失败时以 SchemaValidationError 失败，不会重试
+   * "ndjson" 响应会逐行校验，"stream" 和 "sse" 响应不校验
+   */
+  schema?: StandardSchemaV1;
   
   /**
    * 仅在 Node.js >= 18 且使用 undici 时支持
@@ -112,8 +217,26 @@ export interface FetchOptions<R extends ResponseType = ResponseType, T = any>
    */
   agent?: unknown;
   
-  /** 请求超时时间（毫秒） */
-  timeout?: number;
+  /**
+   * 请求超时时间（毫秒）
+   * 数字表示等待响应头的超时时间，也可以分别设置不同阶段的超时
+   */
+  timeout?: number | TimeoutOptions;
+
+  /**
+   * 对冲请求，仅对 GET 和 HEAD 请求生效
+   * 如果请求在指定时间内没有响应，会再发送一个相同的请求，使用最先返回的响应并中断其他请求
+   * 可以是等待时间（毫秒）或对冲选项
+   */
+  hedge?: number | HedgeOptions;
+
+  /**
+   * 请求的优先级，默认为 0
+   * 设置了 concurrency 的实例中，排队等待的请求按优先级从高到低发送，优先级相同时先来先发送
+   * 也可以使用 fetch 原生的 "high"、"low"、"auto"，它们在队列中分别相当于 1、-1、0，
+   * 数字形式的优先级不会传给 fetch
+   */
+  priority?: number | RequestPriority;
   
   /** 
    * 请求重试次数
@@ -121,20 +244,201 @@ export interface FetchOptions<R extends ResponseType = ResponseType, T = any>
    * 默认对于 GET 请求重试 1 次，其他请求方法不重试
    */
   retry?: number | false;
+
+  /**
+   * 为 POST、PUT、PATCH、DELETE 请求添加 Idempotency-Key 请求头
+   * 同一个逻辑请求的所有重试都使用同一个键，因此这些请求也会像 GET 请求一样默认重试 1 次
+   * - true：自动生成随机 UUID
+   * - string：使用指定的键（只适合单个请求，不要在 $fetch.create 的默认选项中使用）
+   * - function：为每个逻辑请求生成一个键
+   * 如果已经手动设置了 Idempotency-Key 请求头，则不会覆盖
+   */
+  idempotencyKey?: boolean | string | ((context: FetchContext<T, R>) => string);
   
   /** 
    * 重试之间的延迟时间（毫秒）
-   * 可以是固定值或根据上下文计算延迟的函数
+   * 可以是固定值、内置的退避策略（如 "exponential"）或根据上下文计算延迟的函数
    */
-  retryDelay?: number | ((context: FetchContext<T, R>) => number);
+  retryDelay?:
+    | number
+    | RetryDelayStrategy
+    | RetryDelayOptions
+    | ((context: FetchContext<T, R>) => number);
+
+  /**
+   * 重试延迟的上限（毫秒）
+   * 用于限制服务器通过 Retry-After、RateLimit-Reset 等响应头要求的等待时间
+   * 服务器要求的等待时间默认最多 60 秒
+   */
+  maxRetryDelay?: number;
   
   /** 
    * 触发重试的 HTTP 状态码列表
    * 默认值是 [408, 409, 425, 429, 500, 502, 503, 504] 
    */
   retryStatusCodes?: number[];
+
+  /**
+   * 没有收到响应时，触发重试的错误类型列表
+   * 默认值是 ["dns", "connection", "timeout", "abort", "unknown"]，即不重试 TLS 证书错误
+   */
+  retryErrorKinds?: FetchErrorKind[];
+
+  /**
+   * 自定义重试判断函数
+   * 设置后会替代 retryStatusCodes 和 retryErrorKinds 的判断，
+   * 可以根据 context.error 或 context.response 决定是否重试
+   * 仍然受 retry 次数限制
+   */
+  shouldRetry?: (context: FetchContext<T, R>) => MaybePromise<boolean>;
+}
+
+/**
+ * 内置的重试退避策略名称
+ */
+export type RetryDelayStrategy =
+  | "exponential"
+  | "full-jitter"
+  | "decorrelated-jitter"
+  | "linear";
+
+/**
+ * 带参数的重试退避策略配置
+ */
+export interface RetryDelayOptions {
+  /** 退避策略名称 */
+  strategy: RetryDelayStrategy;
+
+  /** 基础延迟（毫秒），默认 500 */
+  base?: number;
+
+  /**
+   * 增长系数
+   * 默认 exponential / full-jitter 为 2，decorrelated-jitter 为 3，linear 为 1
+   */
+  factor?: number;
+
+  /** 单次延迟的上限（毫秒），默认 30000 */
+  max?: number;
+}
+
+/**
+ * 超时类型
+ * - headers：等待响应头超时
+ * - body：读取响应体时，两个数据块之间空闲超时
+ * - total：包括所有重试在内的总时间超时
+ */
+export type TimeoutType = "headers" | "body" | "total";
+
+/**
+ * 分阶段的超时选项（毫秒）
+ */
+export interface TimeoutOptions {
+  /** 每次尝试从发送请求到收到响应头的超时时间 */
+  headers?: number;
+
+  /** 读取响应体时，两个数据块之间的最长空闲时间 */
+  body?: number;
+
+  /**
+   * 从第一次尝试开始，包括所有重试、重试延迟和读取响应体在内的总时间
+   * 对于 stream 响应类型，只计算到返回响应流为止
+   */
+  total?: number;
 }
 
+/**
+ * 对象请求体的编码方式
+ */
+export type BodyType = "json" | "form-data" | "urlencoded" | (string & {});
+
+/**
+ * 请求体序列化函数，把对象请求体转换为可以发送的请求体
+ */
+export type BodySerializer = (body: any) => RequestInit["body"];
+
+/**
+ * 对象转换为 multipart/form-data 时的键格式
+ */
+export interface FormDataOptions {
+  /**
+   * 嵌套对象的键格式
+   * - brackets：a[b]（默认）
+   * - dots：a.b
+   */
+  notation?: "brackets" | "dots";
+
+  /**
+   * 数组的键格式
+   * - indices：a[0]（默认）
+   * - brackets：a[]
+   * - repeat：a（重复使用同一个键）
+   */
+  arrayFormat?: "indices" | "brackets" | "repeat";
+}
+
+/**
+ * 请求体的压缩格式
+ */
+export type CompressionEncoding = "gzip" | "deflate" | "br";
+
+/**
+ * 请求体压缩配置
+ */
+export interface CompressOptions {
+  /** 压缩格式 */
+  encoding: CompressionEncoding;
+
+  /**
+   * 压缩阈值（字节），更小的请求体不压缩
+   * @default 1024
+   */
+  threshold?: number;
+}
+
+/**
+ * 创建压缩流的函数
+ */
+export type CreateCompressionStream = (
+  encoding: CompressionEncoding
+) => ReadableWritablePair<Uint8Array, Uint8Array>;
+
+/**
+ * 对冲请求选项
+ */
+export interface HedgeOptions {
+  /**
+   * 发送对冲请求前的等待时间（毫秒）
+   * 设置了 percentile 时，作为样本不足时的后备值；都没有时不对冲
+   */
+  delay?: number;
+
+  /**
+   * 使用这个 origin 最近观察到的百分位延迟作为等待时间，例如 95 表示 p95
+   */
+  percentile?: number;
+
+  /** 最多额外发送的请求数量，默认 1 */
+  maxHedges?: number;
+}
+
+/**
+ * 没有收到响应时的请求错误类型
+ * - dns：域名解析失败
+ * - connection：连接被拒绝、重置或网络不可达
+ * - timeout：连接或读取超时
+ * - tls：TLS 握手或证书校验失败
+ * - abort：请求被中断
+ * - unknown：无法识别的错误
+ */
+export type FetchErrorKind =
+  | "dns"
+  | "connection"
+  | "timeout"
+  | "tls"
+  | "abort"
+  | "unknown";
+
 /**
  * 解析后的请求选项，包含处理过的 headers
  * 内部使用，表示选项经过了标准化处理
@@ -161,6 +465,111 @@ export interface CreateFetchOptions {
   
   /** 自定义的 AbortController 类 */
   AbortController?: typeof AbortController;
+
+  /** 自定义的 FormData 类，用于把对象请求体转换为 multipart/form-data */
+  FormData?: typeof FormData;
+
+  /**
+   * 创建压缩请求体的流，默认使用 CompressionStream
+   * Node.js 中在 CompressionStream 不支持对应格式时使用 node:zlib
+   */
+  createCompressionStream?: CreateCompressionStream;
+
+  /**
+   * 按响应类型名称注册的响应解析器
+   * 响应的 Content-Type 与解析器的 contentType 匹配时自动使用，也可以通过 responseType 指定
+   * "json"、"ndjson"、"sse" 和 "stream" 是内置的响应类型，不能被替换
+   * 通过 $fetch.create 创建的实例会继承这些解析器
+   */
+  parsers?: Record<string, ResponseParser>;
+
+  /**
+   * 按 origin 熔断
+   * 可以是 true（使用默认配置）、熔断器配置，或者 createCircuitBreaker 创建的熔断器实例
+   * 通过 $fetch.create 创建的实例默认共享同一个熔断器
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions | CircuitBreaker;
+
+  /**
+   * 按照 RFC 9111 缓存 GET 响应
+   * 可以是 true（使用默认配置）或缓存配置
+   * 通过 $fetch.create 创建的实例默认共享同一个缓存存储
+   */
+  cache?: boolean | CacheOptions;
+
+  /**
+   * 合并同时进行的相同请求（single-flight）
+   * 可以是 true（使用默认配置）或合并配置
+   * 相同的请求只会发送一次，每个调用者都会得到自己的响应副本并单独解析
+   */
+  dedupe?: boolean | DedupeOptions;
+
+  /**
+   * 限制这个实例同时进行的请求数量
+   * 可以是最大数量或并发配置，超过限制的请求会排队等待
+   */
+  concurrency?: number | ConcurrencyOptions;
+
+  /**
+   * 客户端限流，在发送请求前等待令牌桶中的令牌
+   * 可以是限流配置，或者 createRateLimiter 创建的限流器实例
+   * 通过 $fetch.create 创建的实例默认共享同一个限流器
+   */
+  rateLimit?: RateLimitOptions | RateLimiter;
+}
+
+/**
+ * 并发限制配置
+ */
+export interface ConcurrencyOptions {
+  /** 同时进行的最大请求数量 */
+  limit: number;
+
+  /**
+   * 是否对每个 origin 分别限制
+   * 默认为 false，即所有请求共用一个限制
+   */
+  perOrigin?: boolean;
+}
+
+/**
+ * 请求队列的统计信息
+ */
+export interface FetchQueueStats {
+  /** 排队等待的请求数量 */
+  pending: number;
+
+  /** 正在进行的请求数量 */
+  active: number;
+}
+
+/**
+ * 请求队列
+ */
+export interface FetchQueue extends Readonly<FetchQueueStats> {
+  /**
+   * 获取某个 origin 的统计信息
+   * 没有设置 perOrigin 时，所有 origin 共用同一个队列，返回的是整个实例的统计信息
+   */
+  getStats(origin: string): FetchQueueStats;
+}
+
+/**
+ * 请求合并配置
+ */
+export interface DedupeOptions {
+  /**
+   * 可以合并的请求方法
+   * 默认为 ["GET", "HEAD"]
+   * 请求体（字符串或 URLSearchParams）也必须相同，其他类型的请求体不会合并
+   */
+  methods?: string[];
+
+  /**
+   * 用于区分请求的请求头名称
+   * 默认使用所有请求头，只有请求头完全相同的请求才会合并
+   */
+  headers?: string[];
 }
 
 /**
@@ -168,9 +577,206 @@ export interface CreateFetchOptions {
  */
 export type GlobalOptions = Pick<
   FetchOptions,
-  "timeout" | "retry" | "retryDelay"
+  "timeout" | "retry" | "retryDelay" | "maxRetryDelay"
 >;
 
+// --------------------------
+// Circuit Breaker
+// --------------------------
+
+/**
+ * 熔断器状态
+ * - closed：正常，请求可以通过
+ * - open：熔断，请求直接失败
+ * - half-open：探测中，允许少量请求通过以检查服务是否恢复
+ */
+export type CircuitBreakerState = "closed" | "open" | "half-open";
+
+/**
+ * 熔断器状态变化事件
+ */
+export interface CircuitBreakerStateChange {
+  /** 状态发生变化的 origin，例如 "https://api.example.com" */
+  origin: string;
+
+  /** 新的状态 */
+  state: CircuitBreakerState;
+
+  /** 之前的状态 */
+  previousState: CircuitBreakerState;
+}
+
+/**
+ * 熔断器配置
+ */
+export interface CircuitBreakerOptions {
+  /** 在滚动窗口内触发熔断的失败次数，默认 5 */
+  failureThreshold?: number;
+
+  /** 统计失败次数的滚动窗口（毫秒），默认 60000 */
+  window?: number;
+
+  /** 熔断后等待多久进入半开状态（毫秒），默认 30000 */
+  resetTimeout?: number;
+
+  /** 半开状态下允许通过的探测请求数量，默认 1 */
+  halfOpenRequests?: number;
+
+  /**
+   * 判断一次请求是否算作失败
+   * 默认没有响应（主动中断除外）或状态码为 408、429、5xx 时算作失败
+   */
+  isFailure?: (context: FetchContext) => boolean;
+
+  /** 熔断器状态变化时触发 */
+  onStateChange?: (event: CircuitBreakerStateChange) => void;
+}
+
+/**
+ * 按 origin 跟踪失败次数的熔断器
+ */
+export interface CircuitBreaker {
+  /** 获取某个 origin 的熔断器状态 */
+  getState(origin: string): CircuitBreakerState;
+
+  /** 获取所有被跟踪的 origin 的熔断器状态 */
+  getStates(): Record<string, CircuitBreakerState>;
+
+  /** 重置某个 origin（不传则重置所有 origin）的熔断器状态 */
+  reset(origin?: string): void;
+
+  /** 检查是否允许向某个 origin 发送请求 */
+  allowRequest(origin: string): boolean;
+
+  /** 记录一次请求的结果 */
+  record(origin: string, context: FetchContext): void;
+}
+
+// --------------------------
+// Rate Limit
+// --------------------------
+
+/**
+ * 限流配置
+ */
+export interface RateLimitOptions {
+  /** 每个时间间隔内允许发送的请求数量 */
+  limit: number;
+
+  /** 时间间隔（毫秒），默认 1000 */
+  interval?: number;
+
+  /** 令牌桶的容量，即允许突发发送的请求数量，默认等于 limit */
+  burst?: number;
+
+  /**
+   * 是否对每个 origin 分别限流
+   * 默认为 false，即所有请求共用一个令牌桶
+   */
+  perOrigin?: boolean;
+
+  /**
+   * 是否根据响应的 RateLimit-Remaining / X-RateLimit-Remaining 头自适应降速
+   * 剩余配额会在配额重置之前平均使用，配额用完或收到 429 时暂停发送，直到配额重置
+   * 默认为 false
+   */
+  adaptive?: boolean;
+}
+
+/**
+ * 限流器实例
+ */
+export interface RateLimiter {
+  /**
+   * 等待一个令牌，可以发送请求时完成
+   * signal 中断时停止等待，并以中断原因失败
+   */
+  acquire(origin: string, signal?: AbortSignal): Promise<void>;
+
+  /** 记录响应，自适应模式会根据响应头调整发送速度 */
+  record(origin: string, response: Response): void;
+}
+
+// --------------------------
+// Cache
+// --------------------------
+
+/**
+ * 缓存中保存的响应
+ * 所有字段都可以被结构化克隆，body 之外的字段也可以直接 JSON 序列化
+ */
+export interface CachedResponse {
+  /** 请求的 URL */
+  url: string;
+
+  /** 响应状态码 */
+  status: number;
+
+  /** 响应状态文本 */
+  statusText: string;
+
+  /** 响应头 */
+  headers: [string, string][];
+
+  /** 响应体 */
+  body: Uint8Array;
+
+  /** 响应的 Vary 头中列出的请求头，在发出请求时的值 */
+  varyHeaders: Record<string, string | null>;
+
+  /** 发出请求的时间戳 */
+  requestTime: number;
+
+  /** 收到响应的时间戳 */
+  responseTime: number;
+}
+
+/**
+ * 缓存存储接口
+ * 方法可以是同步或异步的，因此可以替换为 Redis 等外部存储
+ * 一个普通的 Map 也满足这个接口
+ */
+export interface FetchCacheStorage {
+  /** 读取缓存的响应 */
+  get(key: string): MaybePromise<CachedResponse | undefined>;
+
+  /** 保存响应 */
+  set(key: string, value: CachedResponse): MaybePromise<unknown>;
+
+  /** 删除缓存的响应 */
+  delete(key: string): MaybePromise<unknown>;
+}
+
+/**
+ * 缓存配置
+ */
+export interface CacheOptions {
+  /** 缓存存储，默认为最多保存 1000 个响应的内存 LRU 存储 */
+  storage?: FetchCacheStorage;
+
+  /**
+   * 是否作为共享缓存（例如服务端为多个用户发请求时）
+   * 共享缓存会使用 s-maxage，不保存 private 响应，
+   * 也不保存带有 Authorization 请求头的响应（除非响应明确允许）
+   * 默认为 false，即与浏览器相同的私有缓存
+   */
+  shared?: boolean;
+
+  /**
+   * 缓存过期后，仍然可以直接返回过期响应并在后台重新验证的时间（毫秒）
+   * 响应的 Cache-Control 中有 stale-while-revalidate 指令时使用指令的值
+   * 默认为 0
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * 缓存过期后，请求失败（网络错误或 5xx，重试之后）时仍然可以返回过期响应的时间（毫秒）
+   * 响应的 Cache-Control 中有 stale-if-error 指令时使用指令的值
+   * 默认为 0
+   */
+  staleIfError?: number;
+}
+
 // --------------------------
 // Hooks and Context
 // --------------------------
@@ -191,6 +797,24 @@ export interface FetchContext<T = any, R extends ResponseType = ResponseType> {
   
   /** 错误对象（如果发生错误） */
   error?: Error;
+
+  /**
+   * 当前是第几次尝试，从 1 开始
+   * 每次重试都会加 1
+   */
+  attempt: number;
+
+  /**
+   * 从第一次尝试开始到现在经过的总时间（毫秒），包含所有重试
+   */
+  readonly elapsed: number;
+
+  /**
+   * 服务器要求的重试等待时间（毫秒）
+   * 在重试前从 Retry-After 响应头解析，429 或配额用完时也会读取 RateLimit-Reset、X-RateLimit-Reset，
+   * 并受 maxRetryDelay 限制
+   */
+  retryAfter?: number;
 }
 
 /**
@@ -242,6 +866,47 @@ export interface FetchHooks<T = any, R extends ResponseType = ResponseType> {
   onResponseError?: MaybeArray<
     FetchHook<FetchContext<T, R> & { response: FetchResponse<T> }>
   >;
+
+  /** 
+   * 决定重试之后、等待重试延迟之前触发
+   * 上下文是失败的那次尝试，context.attempt 是失败的尝试次数
+   * 可以用来记录重试日志、修改重试延迟或取消重试
+   */
+  onRetry?: MaybeArray<FetchHook<FetchContext<T, R> & FetchRetryInfo>>;
+
+  /**
+   * 后台重新验证完成时调用的钩子函数
+   * 返回了 stale-while-revalidate 的过期响应时，会在后台重新验证完成（成功或失败）后调用
+   * 钩子中的错误会被忽略
+   */
+  onRevalidate?: MaybeArray<
+    FetchHook<FetchContext<T, R> & FetchRevalidateInfo>
+  >;
+}
+
+/**
+ * onRetry 钩子收到的额外重试信息
+ */
+export interface FetchRetryInfo {
+  /** 这次重试之后还剩余的重试次数 */
+  remainingRetries: number;
+
+  /** 计划的重试延迟（毫秒），钩子可以修改它 */
+  retryDelay: number;
+
+  /** 取消这次重试，请求会直接以错误结束 */
+  cancelRetry: () => void;
+}
+
+/**
+ * onRevalidate 钩子收到的后台重新验证结果
+ */
+export interface FetchRevalidateInfo {
+  /** 重新验证得到的响应（已经更新到缓存中），失败时为 undefined */
+  revalidatedResponse?: Response;
+
+  /** 重新验证失败时的错误 */
+  revalidateError?: Error;
 }
 
 // --------------------------
@@ -267,18 +932,68 @@ export interface ResponseMap {
 
 /**
  * 响应类型，可以是 "json" 或 ResponseMap 中定义的任何类型
+ * 通过 createFetch 的 parsers 注册的响应类型，可以扩展 ResponseMap 来获得类型提示
+ *
+ * @example
+ * ```typescript
+ * declare module "ofetch" {
+ *   interface ResponseMap {
+ *     csv: string[][];
+ *   }
+ * }
+ * ```
  */
-export type ResponseType = keyof ResponseMap | "json";
+export type ResponseType = keyof ResponseMap | "json" | "ndjson" | "sse";
 
 /**
  * 将响应类型映射到实际返回值类型
  * 如果是 "json"，则返回指定的泛型类型
+ * 如果是 "ndjson"，则返回每一行为指定泛型类型的异步迭代器
+ * 如果是 "sse"，则返回事件的异步迭代器
  * 否则返回 ResponseMap 中对应的类型
  */
 export type MappedResponseType<
   R extends ResponseType,
   JsonType = any,
-> = R extends keyof ResponseMap ? ResponseMap[R] : JsonType;
+> = R extends "ndjson"
+  ? AsyncIterable<JsonType>
+  : R extends "sse"
+    ? AsyncIterable<ServerSentEvent>
+    : R extends keyof ResponseMap
+      ? ResponseMap[R]
+      : JsonType;
+
+/**
+ * Server-Sent Events 中的一个事件
+ */
+export interface ServerSentEvent {
+  /** 事件类型，没有 event 字段时为 "message" */
+  event: string;
+
+  /** 事件数据，多个 data 字段之间用换行符连接 */
+  data: string;
+
+  /** 最后收到的事件 ID（可以来自之前的事件） */
+  id?: string;
+
+  /** 这个事件中服务器要求的重新连接等待时间（毫秒） */
+  retry?: number;
+}
+
+/**
+ * 响应解析器，通过 createFetch 的 parsers 按响应类型名称注册
+ */
+export interface ResponseParser<T = any> {
+  /**
+   * 自动使用这个解析器的内容类型
+   * 可以是 MIME 类型（支持 * 通配符，例如 "text/*"、"application/*+cbor"）、正则表达式或它们的数组
+   * 不设置时，只有请求指定了对应的 responseType 才会使用
+   */
+  contentType?: string | RegExp | Array<string | RegExp>;
+
+  /** 解析响应体 */
+  parse: (response: Response) => T | Promise<T>;
+}
 
 /**
  * 扩展的 Response 接口，包含解析后的数据
@@ -322,6 +1037,241 @@ export interface IFetchError<T = any> extends Error {
   statusMessage?: string;
 }
 
+// --------------------------
+// Typed API
+// --------------------------
+
+/**
+ * API 路由定义中可以使用的请求方法
+ */
+export type ApiMethod =
+  | "GET"
+  | "HEAD"
+  | "POST"
+  | "PUT"
+  | "PATCH"
+  | "DELETE"
+  | "OPTIONS";
+
+/**
+ * API 中一个路由的一个请求方法的定义
+ *
+ * @example
+ * ```typescript
+ * interface Api {
+ *   "/users/:id": {
+ *     GET: { response: User };
+ *     PATCH: { body: Partial<User>; response: User };
+ *   };
+ *   "/users": {
+ *     GET: { query?: { page?: number }; response: User[] };
+ *   };
+ * }
+ * ```
+ */
+export interface ApiEndpoint {
+  /** 路径参数，不设置时从路径中的 :name 推断 */
+  params?: Record<string, string | number>;
+
+  /** 查询参数，不设置时不能传 query */
+  query?: Record<string, any>;
+
+  /** 请求体，不设置时不能传 body */
+  body?: unknown;
+
+  /** 响应数据 */
+  response?: unknown;
+}
+
+/**
+ * 路径中 :name 形式的参数名
+ */
+export type PathParamNames<P extends string> =
+  P extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | PathParamNames<`/${Rest}`>
+    : P extends `${string}:${infer Name}`
+      ? Name
+      : never;
+
+/**
+ * API 中的路径
+ */
+export type ApiPath<Api> = Extract<keyof Api, string>;
+
+/**
+ * API 中一个路径支持的请求方法
+ */
+export type ApiPathMethod<Api, P extends ApiPath<Api>> = Extract<
+  keyof Api[P],
+  ApiMethod
+>;
+
+/**
+ * 不指定请求方法时使用的方法，路径不支持 GET 时必须指定请求方法
+ */
+type DefaultApiMethod<Api, P extends ApiPath<Api>> = Extract<
+  ApiPathMethod<Api, P>,
+  "GET"
+>;
+
+/**
+ * API 中一个路径的一个请求方法的定义
+ */
+type ApiEndpointOf<Api, P extends ApiPath<Api>, M> = M extends keyof Api[P]
+  ? Api[P][M]
+  : never;
+
+/**
+ * 路由的响应数据，没有定义 response 时为 unknown
+ */
+export type ApiResponse<Api, P extends ApiPath<Api>, M> =
+  ApiEndpointOf<Api, P, M> extends { response: infer T } ? T : unknown;
+
+/**
+ * 路由定义中的路径参数、查询参数和请求体对应的请求选项
+ */
+type ApiEndpointOptions<E, P extends string> = {
+  [K in keyof E as K extends "query" | "body" ? K : never]: E[K];
+} & (E extends { params: infer Params }
+  ? { pathParams: Params }
+  : [PathParamNames<P>] extends [never]
+    ? {}
+    : { pathParams: Record<PathParamNames<P>, string | number> });
+
+/**
+ * 按路由定义检查的请求选项
+ * 请求方法必须是路由支持的方法，GET 以外的方法必须指定
+ */
+export type ApiFetchOptions<
+  Api,
+  P extends ApiPath<Api>,
+  M extends ApiPathMethod<Api, P>,
+  R extends ResponseType = ResponseType,
+> = Omit<
+  FetchOptions<R>,
+  "method" | "query" | "params" | "body" | "pathParams"
+> &
+  ("GET" extends M ? { method?: M } : { method: M }) &
+  ApiEndpointOptions<ApiEndpointOf<Api, P, M>, P>;
+
+/**
+ * 请求选项参数，所有选项都可以省略时 options 也可以省略
+ */
+type ApiFetchArgs<O> = {} extends O ? [options?: O] : [options: O];
+
+/**
+ * 按 API 路由定义检查类型的 $Fetch 实例，通过 createFetch<Api>() 或 $fetch.create<Api>() 创建
+ *
+ * @example
+ * ```typescript
+ * const api = ofetch.create<Api>({ baseURL: "https://api.example.com" });
+ * const user = await api("/users/:id", { pathParams: { id: 1 } }); // User
+ * await api("/users/:id", { method: "PATCH", pathParams: { id: 1 }, body: { name: "a" } });
+ * ```
+ */
+export interface TypedFetch<Api> extends Omit<$Fetch, "raw" | "create"> {
+  <
+    P extends ApiPath<Api>,
+    M extends ApiPathMethod<Api, P> = DefaultApiMethod<Api, P>,
+    R extends ResponseType = "json",
+  >(
+    request: P,
+    ...options: ApiFetchArgs<ApiFetchOptions<Api, P, M, R>>
+  ): Promise<MappedResponseType<R, ApiResponse<Api, P, M>>>;
+
+  /**
+   * 获取原始响应对象的方法
+   */
+  raw<
+    P extends ApiPath<Api>,
+    M extends ApiPathMethod<Api, P> = DefaultApiMethod<Api, P>,
+    R extends ResponseType = "json",
+  >(
+    request: P,
+    ...options: ApiFetchArgs<ApiFetchOptions<Api, P, M, R>>
+  ): Promise<FetchResponse<MappedResponseType<R, ApiResponse<Api, P, M>>>>;
+
+  /**
+   * 创建一个新的实例，默认使用同一个 API 路由定义
+   */
+  create<NewApi = Api>(
+    defaults: FetchOptions,
+    globalOptions?: CreateFetchOptions
+  ): TypedFetch<NewApi>;
+}
+
+// --------------------------
+// Standard Schema
+// --------------------------
+
+/**
+ * Standard Schema 接口，zod、valibot、arktype 等校验库的 schema 都实现了它
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaProps<Input, Output>;
+}
+
+/**
+ * Standard Schema 的属性
+ */
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  /** Standard Schema 的版本 */
+  readonly version: 1;
+
+  /** 校验库的名称 */
+  readonly vendor: string;
+
+  /** 校验数据，可以是同步或异步的 */
+  readonly validate: (
+    value: unknown
+  ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+
+  /** 输入和输出的类型，只用于类型推断 */
+  readonly types?: { readonly input: Input; readonly output: Output };
+}
+
+/**
+ * 校验结果，成功时包含输出的数据，失败时包含问题列表
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * 校验发现的问题
+ */
+export interface StandardSchemaIssue {
+  /** 问题的描述 */
+  readonly message: string;
+
+  /** 出现问题的数据路径 */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * schema 输出的数据类型
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
+/**
+ * 可以使用 schema 校验的响应类型
+ */
+export type SchemaResponseType = Exclude<ResponseType, "stream" | "sse">;
+
+/**
+ * 设置了 schema 时的响应数据类型
+ * NDJSON 返回每一行为 schema 输出类型的异步迭代器，其他响应类型返回 schema 的输出
+ */
+export type SchemaResponseData<
+  R extends SchemaResponseType,
+  S extends StandardSchemaV1,
+> = R extends "ndjson"
+  ? AsyncIterable<InferSchemaOutput<S>>
+  : InferSchemaOutput<S>;
+
 // --------------------------
 // Other types
 // --------------------------
@@ -331,6 +1281,20 @@ export interface IFetchError<T = any> extends Error {
  */
 export type Fetch = typeof globalThis.fetch;
 
+/**
+ * 上传或下载的进度
+ */
+export interface FetchProgress {
+  /** 已经传输的字节数 */
+  loaded: number;
+
+  /** 总字节数，未知时（例如没有 Content-Length 或内容经过压缩）为 undefined */
+  total?: number;
+
+  /** 平均传输速度（字节/秒） */
+  rate: number;
+}
+
 /**
  * 请求信息类型，可以是 URL 字符串或 Request 对象
  */
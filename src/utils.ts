@@ -9,15 +9,24 @@
  * 4. 选项合并
  * 5. 头部信息处理
  * 6. 钩子函数调用
+ * 7. 随机 UUID 生成
+ * 8. 超时选项解析
+ * 9. AbortSignal 合并
+ * 10. 普通对象检查
+ * 11. 请求体序列化函数选择
+ * 12. 响应解析器匹配
  */
 
 import type {
+  BodySerializer,
   FetchContext,
   FetchHook,
   FetchOptions,
   FetchRequest,
   ResolvedFetchOptions,
+  ResponseParser,
   ResponseType,
+  TimeoutOptions,
 } from "./types";
 
 /**
@@ -91,6 +100,103 @@ export function isJSONSerializable(value: any) {
   );
 }
 
+/**
+ * 检查一个值是否是普通对象或数组
+ * 只有普通对象和数组会被展开为表单字段
+ *
+ * @param value 要检查的值
+ * @returns 是否是普通对象或数组
+ *
+ * @example
+ * ```typescript
+ * isPlainObject({ name: "test" }) // true
+ * isPlainObject([1, 2])           // true
+ * isPlainObject(new FormData())   // false
+ * ```
+ */
+export function isPlainObject(value: any): value is Record<string, any> {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === null || proto === Object.prototype;
+}
+
+/**
+ * 检查请求体是否可以直接传给 fetch，不需要序列化
+ * 包括字符串、Blob、ArrayBuffer、TypedArray、FormData、URLSearchParams 和流
+ *
+ * @param value 请求体
+ * @returns 是否可以直接发送
+ */
+export function isBodyInit(value: any): boolean {
+  if (typeof value !== "object" || value === null) {
+    return typeof value === "string";
+  }
+  const tag = Object.prototype.toString.call(value);
+  return (
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    tag === "[object FormData]" ||
+    tag === "[object URLSearchParams]" ||
+    tag === "[object Blob]" ||
+    tag === "[object File]" ||
+    typeof value.getReader === "function" ||
+    typeof value.pipe === "function"
+  );
+}
+
+/**
+ * 内置的请求体编码方式，其他 bodyType 作为内容类型处理
+ */
+const builtinBodyTypes = new Set(["json", "form-data", "urlencoded"]);
+
+/**
+ * 选择对象请求体的序列化函数
+ *
+ * 1. bodyType 是内容类型时，使用 serializers 中注册的函数（没有注册时使用 serializeBody 或 JSON.stringify）
+ * 2. 请求的 Content-Type 头在 serializers 中注册时，使用注册的函数
+ * 3. 设置了 serializeBody 时，使用它并作为 JSON 发送
+ *
+ * @param options 请求选项
+ * @returns 内容类型和序列化函数，使用默认的 JSON 序列化时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * resolveBodySerializer({ bodyType: "application/msgpack", serializers: { "application/msgpack": encode } })
+ * // { contentType: "application/msgpack", serialize: encode }
+ * ```
+ */
+export function resolveBodySerializer(
+  options: ResolvedFetchOptions
+): { contentType: string; serialize: BodySerializer } | undefined {
+  const { bodyType, serializers, serializeBody } = options;
+  if (bodyType && !builtinBodyTypes.has(bodyType)) {
+    return {
+      contentType: bodyType,
+      serialize:
+        serializers?.[bodyType.toLowerCase()] ||
+        serializeBody ||
+        JSON.stringify,
+    };
+  }
+  const contentType = options.headers
+    .get("content-type")
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase();
+  if (contentType && serializers?.[contentType]) {
+    return { contentType, serialize: serializers[contentType] };
+  }
+  if (serializeBody) {
+    return { contentType: "application/json", serialize: serializeBody };
+  }
+  return undefined;
+}
+
 /**
  * 文本类型的 MIME 类型集合
  * 这些类型应该作为文本处理
@@ -108,15 +214,39 @@ const textTypes = new Set([
  */
 const JSON_RE = /^application\/(?:[\w!#$%&*.^`~-]*\+)?json(;.+)?$/i;
 
+/**
+ * 检查内容类型是否与解析器的 contentType 匹配
+ *
+ * @param contentType 不带参数的小写内容类型
+ * @param pattern MIME 类型（支持 * 通配符）或正则表达式
+ * @returns 是否匹配
+ */
+function matchesContentType(
+  contentType: string,
+  pattern: string | RegExp
+): boolean {
+  if (typeof pattern !== "string") {
+    return pattern.test(contentType);
+  }
+  const source = pattern
+    .toLowerCase()
+    .split("*")
+    .map((part) => part.replace(/[$()+.?[\\\]^{|}]/g, String.raw`\$&`))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(contentType);
+}
+
 /**
  * 根据 Content-Type 头检测响应类型
  * 
  * 这个函数会根据响应的 Content-Type 头来决定如何解析响应体：
- * 1. 如果是 JSON 类型，返回 "json"
- * 2. 如果是文本类型，返回 "text"
- * 3. 其他情况返回 "blob"
+ * 1. 如果与注册的解析器匹配，返回解析器的响应类型名称
+ * 2. 如果是 JSON 类型，返回 "json"
+ * 3. 如果是文本类型，返回 "text"
+ * 4. 其他情况返回 "blob"
  * 
  * @param _contentType Content-Type 头
+ * @param parsers 按响应类型名称注册的响应解析器
  * @returns 响应类型
  * 
  * @example
@@ -126,7 +256,10 @@ const JSON_RE = /^application\/(?:[\w!#$%&*.^`~-]*\+)?json(;.+)?$/i;
  * detectResponseType("image/png")        // "blob"
  * ```
  */
-export function detectResponseType(_contentType = ""): ResponseType {
+export function detectResponseType(
+  _contentType = "",
+  parsers?: Record<string, ResponseParser>
+): ResponseType {
   if (!_contentType) {
     return "json";
   }
@@ -134,6 +267,23 @@ export function detectResponseType(_contentType = ""): ResponseType {
   // 处理带有参数的 Content-Type
   const contentType = _contentType.split(";").shift() || "";
 
+  // 注册的解析器优先于内置的判断，按注册顺序匹配
+  if (parsers) {
+    const mediaType = contentType.trim().toLowerCase();
+    for (const [responseType, parser] of Object.entries(parsers)) {
+      const patterns = Array.isArray(parser.contentType)
+        ? parser.contentType
+        : [parser.contentType];
+      if (
+        patterns.some(
+          (pattern) => pattern && matchesContentType(mediaType, pattern)
+        )
+      ) {
+        return responseType as ResponseType;
+      }
+    }
+  }
+
   if (JSON_RE.test(contentType)) {
     return "json";
   }
@@ -191,12 +341,19 @@ export function resolveFetchOptions<
     };
   }
 
+  // 合并按内容类型注册的序列化函数
+  let serializers: Record<string, BodySerializer> | undefined;
+  if (defaults?.serializers || input?.serializers) {
+    serializers = { ...defaults?.serializers, ...input?.serializers };
+  }
+
   return {
     ...defaults,
     ...input,
     query,
     params: query,
     headers,
+    serializers,
   };
 }
 
@@ -257,3 +414,121 @@ export async function callHooks<C extends FetchContext = FetchContext>(
     }
   }
 }
+
+/**
+ * 生成随机的 UUID v4
+ *
+ * 优先使用 Web Crypto 的 crypto.randomUUID，
+ * 在不支持的运行时（例如非安全上下文的浏览器）中使用 Math.random 作为后备实现
+ *
+ * @returns UUID 字符串
+ *
+ * @example
+ * ```typescript
+ * randomUUID() // "3b241101-e2bb-4255-8caf-4136c566a962"
+ * ```
+ */
+export function randomUUID(): string {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID();
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = Math.trunc(Math.random() * 16);
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * 替换路径中 :name 形式的路径参数
+ * 参数值会经过 URL 编码，没有提供的参数保持不变
+ *
+ * @param path 请求路径
+ * @param params 路径参数
+ * @returns 替换后的路径
+ *
+ * @example
+ * ```typescript
+ * withPathParams("/users/:id/posts", { id: 1 }) // "/users/1/posts"
+ * ```
+ */
+export function withPathParams(
+  path: string,
+  params: Record<string, string | number>
+): string {
+  return path.replace(/:([A-Z_a-z]\w*)/g, (match, name: string) =>
+    name in params ? encodeURIComponent(String(params[name])) : match
+  );
+}
+
+/**
+ * 将 timeout 选项统一为分阶段的超时选项
+ *
+ * @param timeout 数字（等待响应头的超时时间）或分阶段的超时选项
+ * @returns 分阶段的超时选项
+ *
+ * @example
+ * ```typescript
+ * resolveTimeouts(3000) // { headers: 3000 }
+ * resolveTimeouts({ body: 1000 }) // { body: 1000 }
+ * ```
+ */
+export function resolveTimeouts(
+  timeout: number | TimeoutOptions | undefined
+): TimeoutOptions {
+  if (typeof timeout === "number") {
+    return { headers: timeout };
+  }
+  return timeout || {};
+}
+
+/**
+ * 合并多个 AbortSignal，任意一个中断时，返回的 signal 也会以相同的原因中断
+ *
+ * 优先使用 AbortSignal.any，不支持的运行时（或 signal 来自 polyfill 时）使用后备实现。
+ * 后备实现会在传入的 signal 上添加监听器，请求结束后需要调用 cleanup 移除，
+ * 否则长期复用的 signal 上会累积监听器。
+ *
+ * @param signals 要合并的 signal
+ * @param AbortController AbortController 类，用于后备实现
+ * @returns 合并后的 signal，以及移除监听器的 cleanup 函数
+ *
+ * @example
+ * ```typescript
+ * const { signal, cleanup } = anySignal([userSignal, timeoutSignal], AbortController);
+ * signal.reason // 先中断的那个 signal 的原因
+ * cleanup(); // 请求结束后调用
+ * ```
+ */
+export function anySignal(
+  signals: AbortSignal[],
+  AbortController: typeof globalThis.AbortController
+): { signal: AbortSignal; cleanup: () => void } {
+  if (typeof globalThis.AbortSignal?.any === "function") {
+    try {
+      return { signal: globalThis.AbortSignal.any(signals), cleanup() {} };
+    } catch {
+      // 来自 polyfill 的 signal 不能传给原生的 AbortSignal.any
+    }
+  }
+
+  const controller = new AbortController();
+  const aborted = signals.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, cleanup() {} };
+  }
+
+  const cleanup = () => {
+    for (const signal of signals) {
+      signal.removeEventListener("abort", onAbort);
+    }
+  };
+  const onAbort = (event: Event) => {
+    controller.abort((event.target as AbortSignal).reason);
+    cleanup();
+  };
+  for (const signal of signals) {
+    signal.addEventListener("abort", onAbort);
+  }
+  return { signal: controller.signal, cleanup };
+}
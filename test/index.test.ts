@@ -12,15 +12,21 @@
  * 8. 代理支持
  */
 
+import { createServer, type AddressInfo } from "node:net";
 import { Readable } from "node:stream";
-import { listen } from "listhen";
+import zlib from "node:zlib";
+import { listen, type Listener } from "listhen";
 import { getQuery, joinURL } from "ufo";
 import {
   createApp,
   createError,
   eventHandler,
+  getQuery as getEventQuery,
+  setResponseHeader,
+  setResponseStatus,
   readBody,
   readRawBody,
+  readMultipartFormData,
   toNodeListener,
 } from "h3";
 import {
@@ -30,16 +36,47 @@ import {
   afterAll,
   it,
   expect,
+  expectTypeOf,
   vi,
 } from "vitest";
 import { Headers, FormData, Blob } from "node-fetch-native";
 import { nodeMajorVersion } from "std-env";
-import { $fetch } from "../src/node";
+import {
+  $fetch,
+  CircuitOpenError,
+  FetchError,
+  createFetch,
+  createFormDataPart,
+  ResponseTooLargeError,
+  SchemaValidationError,
+  TimeoutError,
+  getBackoffDelay,
+  getFetchErrorKind,
+  getRetryAfter,
+  type ServerSentEvent,
+  type StandardSchemaV1,
+} from "../src/node";
+
+// 测试中注册的解析器的响应类型
+declare module "../src/types" {
+  interface ResponseMap {
+    lines: string[];
+    info: { status: number; url: string };
+  }
+}
 
 describe("ofetch", () => {
-  let listener;
+  let listener: Listener;
+  let hedgeCount = 0;
+  let cacheCount = 0;
+  let cacheError = false;
+  let dedupeCount = 0;
+  let largeChunks = 0;
+  let largeDone = false;
+  let ndjsonClosed = false;
+  let sseRequests: Array<Record<string, string | undefined>> = [];
   // 获取测试服务器的完整 URL
-  const getURL = (url) => joinURL(listener.url, url);
+  const getURL = (url: string) => joinURL(listener.url, url);
 
   // 模拟全局 fetch 函数
   const fetch = vi.spyOn(globalThis, "fetch");
@@ -82,14 +119,75 @@ describe("ofetch", () => {
           headers: event.node.req.headers,
         }))
       )
+      // 测试请求体压缩：返回 Content-Encoding 和解压后的请求体
+      .use(
+        "/compressed",
+        eventHandler(async (event) => {
+          const encoding = event.node.req.headers["content-encoding"];
+          const raw = (await readRawBody(event, false))!;
+          const decompress = {
+            gzip: zlib.gunzipSync,
+            deflate: zlib.inflateSync,
+            br: zlib.brotliDecompressSync,
+          }[encoding as string];
+          return {
+            encoding,
+            size: raw.byteLength,
+            body: (decompress ? decompress(raw) : raw).toString(),
+          };
+        })
+      )
+      // 测试 multipart/form-data 请求体：返回解析后的各个部分
+      .use(
+        "/multipart",
+        eventHandler(async (event) => ({
+          contentType: event.node.req.headers["content-type"],
+          parts: (await readMultipartFormData(event))?.map((part) => ({
+            name: part.name,
+            filename: part.filename,
+            type: part.type,
+            data: part.data.toString(),
+          })),
+        }))
+      )
+      // 测试自定义响应解析器：返回 CSV
+      .use(
+        "/csv",
+        eventHandler((event) => {
+          const { type = "text/csv", status = 200 } = getEventQuery(event);
+          setResponseHeader(event, "Content-Type", String(type));
+          setResponseStatus(event, Number(status));
+          return "a,b\n1,2";
+        })
+      )
       // 测试二进制数据响应
       .use(
         "/binary",
         eventHandler((event) => {
           event.node.res.setHeader("Content-Type", "application/octet-stream");
+          event.node.res.setHeader("Content-Length", 6);
           return new Blob(["binary"]);
         })
       )
+      // 测试大的可缓存响应：没有 Content-Length，分块发送
+      .use(
+        "/large",
+        eventHandler(async (event) => {
+          const res = event.node.res;
+          res.writeHead(200, {
+            "content-type": "application/octet-stream",
+            "cache-control": "max-age=60",
+          });
+          largeChunks = 0;
+          for (let i = 0; i < 200 && !res.destroyed; i++) {
+            res.write(new Uint8Array(1024));
+            largeChunks++;
+            await new Promise((resolve) => setTimeout(resolve, 1));
+          }
+          res.end();
+          largeDone = true;
+        })
+      )
       // 测试错误响应
       .use(
         "/403",
@@ -102,6 +200,125 @@ describe("ofetch", () => {
         "/408",
         eventHandler(() => createError({ status: 408 }))
       )
+      // 测试 Retry-After 响应头
+      .use(
+        "/429",
+        eventHandler((event) => {
+          const { retryAfter } = getEventQuery(event);
+          event.node.res.setHeader("Retry-After", String(retryAfter));
+          setResponseStatus(event, 429);
+          return "Too Many Requests";
+        })
+      )
+      // 测试对冲请求：奇数次请求很慢，偶数次请求立即返回
+      .use(
+        "/hedge",
+        eventHandler(async () => {
+          const count = ++hedgeCount;
+          if (count % 2 === 1) {
+            await new Promise((resolve) => setTimeout(resolve, 1000));
+          }
+          return { count };
+        })
+      )
+      // 测试 HTTP 缓存：返回 ETag，验证器匹配时返回 304
+      .use(
+        "/cached",
+        eventHandler((event) => {
+          const { maxAge = 0, stale } = getEventQuery(event);
+          if (cacheError) {
+            throw createError({ status: 503 });
+          }
+          setResponseHeader(
+            event,
+            "Cache-Control",
+            stale ? `max-age=${maxAge}, ${stale}` : `max-age=${maxAge}`
+          );
+          setResponseHeader(event, "ETag", '"v1"');
+          if (event.node.req.headers["if-none-match"] === '"v1"') {
+            setResponseStatus(event, 304);
+            return "";
+          }
+          return { count: ++cacheCount };
+        })
+      )
+      // 测试自适应限流：返回剩余配额
+      .use(
+        "/ratelimit",
+        eventHandler((event) => {
+          const { remaining } = getEventQuery(event);
+          setResponseHeader(event, "X-RateLimit-Remaining", String(remaining));
+          return "ok";
+        })
+      )
+      // 测试请求合并：稍微延迟后返回调用次数
+      .use(
+        "/dedupe",
+        eventHandler(async () => {
+          const count = ++dedupeCount;
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          return { count };
+        })
+      )
+      // 测试 NDJSON 响应：逐行发送，连接提前关闭时停止发送
+      .use(
+        "/ndjson",
+        eventHandler(async (event) => {
+          const { count = "3" } = getEventQuery(event);
+          const res = event.node.res;
+          ndjsonClosed = false;
+          res.on("close", () => {
+            ndjsonClosed = !res.writableFinished;
+          });
+          res.writeHead(200, { "content-type": "application/x-ndjson" });
+          for (let i = 1; i <= Number(count) && !ndjsonClosed; i++) {
+            res.write(JSON.stringify({ id: i }) + (i === 2 ? "\r\n\n" : "\n"));
+            await new Promise((resolve) => setTimeout(resolve, 10));
+          }
+          res.end('{"id":"last"}');
+        })
+      )
+      // 测试 SSE 响应：第一次连接发送两个事件，带 Last-Event-ID 重新连接时继续发送，之后返回 204
+      .use(
+        "/sse",
+        eventHandler((event) => {
+          const lastEventId = event.node.req.headers["last-event-id"];
+          sseRequests.push({
+            method: event.method,
+            accept: event.node.req.headers.accept,
+            lastEventId: lastEventId as string | undefined,
+          });
+          const res = event.node.res;
+          // 设置了 drop 时第二次连接直接断开
+          const { drop } = getEventQuery(event);
+          if (drop && sseRequests.length === 2) {
+            res.destroy();
+            return;
+          }
+          if (sseRequests.length > (drop ? 3 : 2)) {
+            res.writeHead(204).end();
+            return;
+          }
+          res.writeHead(200, { "content-type": "text/event-stream" });
+          if (lastEventId) {
+            res.end("data: resumed\n\n");
+            return;
+          }
+          res.write(": comment\nretry: 10\n");
+          res.write("id: 1\nevent: greet\ndata: hello\ndata: world\n\n");
+          res.end('id: 2\r\ndata: {"a":1}\r\n\r\ndata: incomplete');
+        })
+      )
+      // 测试响应体超时：先发送一部分响应体，然后停顿
+      .use(
+        "/stall",
+        eventHandler(async (event) => {
+          event.node.res.writeHead(200, { "content-type": "text/plain" });
+          event.node.res.write("a");
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+          event.node.res.end("b");
+        })
+      )
       // 测试空响应
       .use(
         "/204",
@@ -140,7 +357,7 @@ describe("ofetch", () => {
   // 测试自定义响应解析
   it("custom parseResponse", async () => {
     let called = 0;
-    const parser = (r) => {
+    const parser = (r: string) => {
       called++;
       return "C" + r;
     };
@@ -172,6 +389,363 @@ describe("ofetch", () => {
   });
 
   // 测试 baseURL 功能
+  it("custom response parsers", async () => {
+    const parseCSV = async (response: Response) =>
+      (await response.text()).split("\n").map((line) => line.split(","));
+    const _fetch = $fetch.create(
+      {},
+      {
+        parsers: {
+          csv: {
+            contentType: ["text/csv", "application/*+csv"],
+            parse: parseCSV,
+          },
+          lines: {
+            parse: async (response) => (await response.text()).split("\n"),
+          },
+        },
+      }
+    );
+    const rows = [
+      ["a", "b"],
+      ["1", "2"],
+    ];
+    expect(await _fetch(getURL("csv"))).toEqual(rows);
+    expect(
+      await _fetch(getURL("csv?type=application/vnd.report%2Bcsv"))
+    ).toEqual(rows);
+    expect(await _fetch(getURL("csv"), { responseType: "lines" })).toEqual([
+      "a,b",
+      "1,2",
+    ]);
+    // 派生的实例继承解析器
+    expect(await _fetch.create({})(getURL("csv"))).toEqual(rows);
+    // 没有注册解析器的实例按文本处理
+    expect(await $fetch(getURL("csv"))).toBe("a,b\n1,2");
+
+    // 包装了响应体（例如统计下载进度）时，解析器仍然可以读取状态和 URL
+    const infoFetch = $fetch.create(
+      {},
+      {
+        parsers: {
+          info: {
+            parse: async (response) => ({
+              status: response.status,
+              url: response.url,
+            }),
+          },
+        },
+      }
+    );
+    expect(
+      await infoFetch(getURL("csv?status=201"), {
+        responseType: "info",
+        onDownloadProgress: () => {},
+      })
+    ).toEqual({ status: 201, url: getURL("csv?status=201") });
+  });
+
+  it("ndjson responseType", async () => {
+    const items = await $fetch<{ id: number | string }, "ndjson">(
+      getURL("ndjson"),
+      { responseType: "ndjson" }
+    );
+    const ids: Array<number | string> = [];
+    for await (const item of items) {
+      ids.push(item.id);
+    }
+    expect(ids).toEqual([1, 2, 3, "last"]);
+
+    const lines = await $fetch(getURL("ndjson"), {
+      responseType: "ndjson",
+      parseResponse: (line) => line.length,
+    });
+    const lengths: number[] = [];
+    for await (const length of lines) {
+      lengths.push(length);
+    }
+    expect(lengths).toEqual([8, 8, 8, 13]);
+  });
+
+  it("ndjson responseType cancels the body on early return", async () => {
+    const items = await $fetch(getURL("ndjson?count=100"), {
+      responseType: "ndjson",
+    });
+    const ids: number[] = [];
+    for await (const item of items) {
+      ids.push(item.id);
+      if (ids.length === 2) {
+        break;
+      }
+    }
+    expect(ids).toEqual([1, 2]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(ndjsonClosed).toBe(true);
+  });
+
+  it("sse responseType", async () => {
+    sseRequests = [];
+    const events = await $fetch(getURL("sse"), { responseType: "sse" });
+    const received: ServerSentEvent[] = [];
+    for await (const event of events) {
+      received.push(event);
+    }
+    expect(received).toEqual([
+      { event: "greet", data: "hello\nworld", id: "1", retry: 10 },
+      { event: "message", data: '{"a":1}', id: "2" },
+    ]);
+    expect(sseRequests).toEqual([
+      { method: "GET", accept: "text/event-stream", lastEventId: undefined },
+    ]);
+  });
+
+  it("sse responseType reconnects with Last-Event-ID", async () => {
+    sseRequests = [];
+    const onRequest = vi.fn();
+    const events = await $fetch(getURL("sse"), {
+      method: "POST",
+      body: { topic: "news" },
+      responseType: "sse",
+      reconnect: true,
+      onRequest,
+    });
+    const data: string[] = [];
+    for await (const event of events) {
+      data.push(event.data);
+    }
+    expect(data).toEqual(["hello\nworld", '{"a":1}', "resumed"]);
+    expect(onRequest).toHaveBeenCalledTimes(3);
+    expect(sseRequests.map((request) => request.lastEventId)).toEqual([
+      undefined,
+      "2",
+      "2",
+    ]);
+    expect(sseRequests.every((request) => request.method === "POST")).toBe(
+      true
+    );
+  });
+
+  it("sse responseType keeps reconnecting after a failed reconnect", async () => {
+    sseRequests = [];
+    const events = await $fetch(getURL("sse?drop=1"), {
+      responseType: "sse",
+      reconnect: 2,
+      retry: 0,
+    });
+    const data: string[] = [];
+    for await (const event of events) {
+      data.push(event.data);
+    }
+    expect(data).toEqual(["hello\nworld", '{"a":1}', "resumed"]);
+    expect(sseRequests.map((request) => request.lastEventId)).toEqual([
+      undefined,
+      "2",
+      "2",
+      "2",
+    ]);
+
+    // 重新连接的次数用完后以最后的错误结束
+    sseRequests = [];
+    const failing = await $fetch(getURL("sse?drop=1"), {
+      responseType: "sse",
+      reconnect: 1,
+      retry: 0,
+    });
+    const iterate = async () => {
+      for await (const event of failing) {
+        expect(event).toBeDefined();
+      }
+    };
+    await expect(iterate()).rejects.toThrow("fetch failed");
+    expect(sseRequests).toHaveLength(2);
+  });
+
+  it("download progress", async () => {
+    const onDownloadProgress = vi.fn();
+    expect(
+      await $fetch(getURL("binary"), {
+        responseType: "text",
+        onDownloadProgress,
+      })
+    ).toBe("binary");
+    expect(onDownloadProgress).toHaveBeenCalled();
+    expect(onDownloadProgress.mock.lastCall![0]).toMatchObject({ loaded: 6 });
+
+    // stream 响应在读取时才报告进度
+    onDownloadProgress.mockClear();
+    const stream = await $fetch(getURL("binary"), {
+      responseType: "stream",
+      onDownloadProgress,
+    });
+    expect(onDownloadProgress).not.toHaveBeenCalled();
+    expect(await new Response(stream).text()).toBe("binary");
+    expect(onDownloadProgress.mock.lastCall![0].loaded).toBe(6);
+  });
+
+  it("upload progress", async () => {
+    const onUploadProgress = vi.fn();
+    const { body } = await $fetch(getURL("echo"), {
+      method: "POST",
+      body: new Blob(["x".repeat(1000)]),
+      onUploadProgress,
+    });
+    expect(body).toBe("x".repeat(1000));
+    expect(onUploadProgress.mock.lastCall![0]).toMatchObject({
+      loaded: 1000,
+      total: 1000,
+    });
+    expect(onUploadProgress.mock.lastCall![0].rate).toBeGreaterThanOrEqual(0);
+  });
+
+  it("maxResponseSize", async () => {
+    // Content-Length 超过限制时不读取响应体
+    const error = await $fetch(getURL("binary"), {
+      maxResponseSize: 4,
+    }).catch((error_) => error_);
+    expect(error).toBeInstanceOf(ResponseTooLargeError);
+    expect(error.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(
+      await $fetch(getURL("binary"), { maxResponseSize: 6 })
+    ).toBeInstanceOf(Blob);
+
+    // 没有 Content-Length 时，读取超过限制后中断连接
+    const textError = await $fetch(getURL("ndjson?count=100"), {
+      responseType: "text",
+      maxResponseSize: 20,
+    }).catch((error_) => error_);
+    expect(textError).toBeInstanceOf(ResponseTooLargeError);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(ndjsonClosed).toBe(true);
+
+    const stream = await $fetch(getURL("ndjson?count=100"), {
+      responseType: "stream",
+      maxResponseSize: 20,
+    });
+    await expect(new Response(stream).text()).rejects.toBeInstanceOf(
+      ResponseTooLargeError
+    );
+
+    // 没有响应体的响应不检查 Content-Length
+    expect(
+      await $fetch.raw(getURL("binary"), { method: "HEAD", maxResponseSize: 4 })
+    ).toMatchObject({ status: 200 });
+
+    // 超过限制时中断请求，缓存不会保存不完整的响应体
+    const _fetch = $fetch.create({}, { cache: true });
+    largeDone = false;
+    await expect(
+      _fetch(getURL("large"), { maxResponseSize: 2048 })
+    ).rejects.toBeInstanceOf(ResponseTooLargeError);
+    await vi.waitFor(() => expect(largeDone).toBe(true));
+    expect(largeChunks).toBeLessThan(200);
+    fetch.mockClear();
+    await _fetch(getURL("large"), { responseType: "arrayBuffer" });
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("schema validation", async () => {
+    // 测试用的 Standard Schema：要求字段是指定类型，输出时转换为字符串
+    const createSchema = (
+      key: string,
+      type: string
+    ): StandardSchemaV1<unknown, Record<string, string>> => ({
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value: any) =>
+          typeof value?.[key] === type
+            ? { value: { [key]: String(value[key]).toUpperCase() } }
+            : { issues: [{ message: `Expected ${type}`, path: [key] }] },
+      },
+    });
+
+    expect(
+      await $fetch(getURL("echo?q=a"), {
+        schema: createSchema("path", "string"),
+      })
+    ).toEqual({ path: "?Q=A" });
+
+    fetch.mockClear();
+    const error = await $fetch(getURL("echo?q=a"), {
+      schema: createSchema("path", "number"),
+    }).catch((error_) => error_);
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toContain("path: Expected number");
+    expect(error.issues).toEqual([
+      { message: "Expected number", path: ["path"] },
+    ]);
+    expect(error.status).toBe(200);
+    expect(error.data.path).toBe("?q=a");
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    // NDJSON 逐行校验
+    const items = await $fetch(getURL("ndjson"), {
+      responseType: "ndjson",
+      schema: createSchema("id", "number"),
+    });
+    const ids: string[] = [];
+    const ndjsonError = await (async () => {
+      for await (const item of items) {
+        ids.push(item.id);
+      }
+    })().catch((error_) => error_);
+    expect(ids).toEqual(["1", "2", "3"]);
+    expect(ndjsonError).toBeInstanceOf(SchemaValidationError);
+    expectTypeOf(items).toEqualTypeOf<AsyncIterable<Record<string, string>>>();
+
+    // 其他响应类型也返回 schema 的输出
+    const textLength: StandardSchemaV1<unknown, number> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => ({ value: String(value).length }),
+      },
+    };
+    const length = await $fetch(getURL("ok"), {
+      responseType: "text",
+      schema: textLength,
+    });
+    expectTypeOf(length).toEqualTypeOf<number>();
+    expect(length).toBe(2);
+  });
+
+  it("typed API routes with path params", async () => {
+    interface Api {
+      "/url/:name/:id": { GET: { query?: { q?: string }; response: string } };
+      "/post": {
+        POST: { body: { name: string }; response: { body: { name: string } } };
+      };
+    }
+    const api = $fetch.create<Api>({ baseURL: getURL("") });
+
+    expect(
+      await api("/url/:name/:id", {
+        pathParams: { name: "a b", id: 1 },
+        query: { q: "x" },
+      })
+    ).toBe("/a%20b/1?q=x");
+    const { body } = await api("/post", {
+      method: "POST",
+      body: { name: "ofetch" },
+    });
+    expect(body.name).toBe("ofetch");
+    expectTypeOf(body).toEqualTypeOf<{ name: string }>();
+
+    // 不符合路由定义的调用不能通过类型检查
+    const invalidCalls = () => [
+      // @ts-expect-error 不存在的路径
+      api("/missing"),
+      // @ts-expect-error 路径不支持的方法
+      api("/post", { method: "PUT", body: { name: "ofetch" } }),
+      // @ts-expect-error 缺少请求体的字段
+      api("/post", { method: "POST", body: {} }),
+      // @ts-expect-error 缺少 pathParams
+      api("/url/:name/:id", { query: { q: "x" } }),
+    ];
+    expect(invalidCalls).toBeTypeOf("function");
+  });
+
   it("baseURL", async () => {
     expect(await $fetch("/x?foo=123", { baseURL: getURL("url") })).to.equal(
       "/x?foo=123"
@@ -224,6 +798,47 @@ describe("ofetch", () => {
   });
 
   // 测试 Buffer 请求体
+  it("compress request body", async () => {
+    const items = Array.from({ length: 100 }, (_, id) => ({ id, ok: true }));
+    const gzip = await $fetch(getURL("compressed"), {
+      method: "POST",
+      body: items,
+      compress: "gzip",
+    });
+    expect(gzip.encoding).toBe("gzip");
+    expect(gzip.size).toBeLessThan(JSON.stringify(items).length);
+    expect(JSON.parse(gzip.body)).toEqual(items);
+
+    // 小于阈值的请求体不压缩
+    const small = await $fetch(getURL("compressed"), {
+      method: "POST",
+      body: { id: 1 },
+      compress: "gzip",
+    });
+    expect(small).toEqual({ encoding: undefined, size: 8, body: '{"id":1}' });
+
+    // CompressionStream 不支持的格式使用 node:zlib
+    const br = await $fetch(getURL("compressed"), {
+      method: "POST",
+      body: "hello",
+      compress: { encoding: "br", threshold: 0 },
+    });
+    expect(br).toMatchObject({ encoding: "br", body: "hello" });
+
+    // 运行时不支持的格式以 FetchError 失败，并调用 onRequestError
+    const webFetch = createFetch({ fetch: globalThis.fetch, Headers });
+    const onRequestError = vi.fn();
+    const error = await webFetch(getURL("compressed"), {
+      method: "POST",
+      body: "hello",
+      compress: { encoding: "br", threshold: 0 },
+      onRequestError,
+    }).catch((error_) => error_);
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error.message).toContain('compression "br" is not supported');
+    expect(onRequestError).toHaveBeenCalledOnce();
+  });
+
   it("Handle Buffer body", async () => {
     const message = "Hallo von Pascal";
     const { body } = await $fetch(getURL("echo"), {
@@ -282,6 +897,102 @@ describe("ofetch", () => {
     expect(body).to.include('form-data; name="foo"');
   });
 
+  it("serializes objects with files as form-data", async () => {
+    const { contentType, parts } = await $fetch(getURL("multipart"), {
+      method: "POST",
+      headers: { "content-type": "multipart/form-data" },
+      body: {
+        title: "report",
+        empty: undefined,
+        meta: { tags: ["a", "b"], size: 2 },
+        file: new Blob(["blob"], { type: "text/plain" }),
+        buffer: Buffer.from("buffer"),
+        part: createFormDataPart(Readable.from(["str", "eam"]), {
+          filename: "data.csv",
+          contentType: "text/csv",
+        }),
+      },
+    });
+    expect(contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(parts).toEqual([
+      { name: "title", data: "report" },
+      { name: "meta[tags][0]", data: "a" },
+      { name: "meta[tags][1]", data: "b" },
+      { name: "meta[size]", data: "2" },
+      { name: "file", filename: "blob", type: "text/plain", data: "blob" },
+      {
+        name: "buffer",
+        filename: "blob",
+        type: "application/octet-stream",
+        data: "buffer",
+      },
+      { name: "part", filename: "data.csv", type: "text/csv", data: "stream" },
+    ]);
+  });
+
+  it("form-data bodyType with dots notation", async () => {
+    const { parts } = await $fetch(getURL("multipart"), {
+      method: "POST",
+      bodyType: "form-data",
+      formDataOptions: { notation: "dots", arrayFormat: "brackets" },
+      body: { user: { name: "a", roles: ["x", "y"] } },
+    });
+    expect(parts).toEqual([
+      { name: "user.name", data: "a" },
+      { name: "user.roles[]", data: "x" },
+      { name: "user.roles[]", data: "y" },
+    ]);
+  });
+
+  it("serializes urlencoded body", async () => {
+    const { body, headers } = await $fetch(getURL("echo"), {
+      method: "POST",
+      bodyType: "urlencoded",
+      body: { grant_type: "client_credentials", scope: ["a b", "c"], id: 1 },
+    });
+    expect(body).toBe("grant_type=client_credentials&scope=a+b&scope=c&id=1");
+    expect(headers["content-type"]).toBe("application/x-www-form-urlencoded");
+  });
+
+  it("custom serializeBody", async () => {
+    const { body, headers } = await $fetch(getURL("echo"), {
+      method: "POST",
+      body: { id: 1n },
+      serializeBody: (body) =>
+        JSON.stringify(body, (_, value) =>
+          typeof value === "bigint" ? value.toString() : value
+        ),
+    });
+    expect(body).toBe('{"id":"1"}');
+    expect(headers["content-type"]).toBe("application/json");
+  });
+
+  it("serializer registry by content type", async () => {
+    const _fetch = $fetch.create({
+      method: "POST",
+      serializers: {
+        "application/x-pairs": (body) =>
+          [...(body instanceof Map ? body : Object.entries(body))]
+            .map((entry) => entry.join(":"))
+            .join(";"),
+      },
+    });
+
+    const byBodyType = await _fetch(getURL("echo"), {
+      body: { a: 1, b: 2 },
+      bodyType: "application/x-pairs",
+    });
+    expect(byBodyType.body).toBe("a:1;b:2");
+    expect(byBodyType.headers["content-type"]).toBe("application/x-pairs");
+    expect(byBodyType.headers.accept).toBe("application/x-pairs");
+
+    const byHeader = await _fetch(getURL("echo"), {
+      body: new Map([["c", 3]]),
+      headers: { "content-type": "application/x-pairs; charset=utf-8" },
+    });
+    expect(byHeader.body).toBe("c:3");
+  });
+
   it("Bypass URLSearchParams body", async () => {
     const data = new URLSearchParams({ foo: "bar" });
     const { body } = await $fetch(getURL("post"), {
@@ -354,6 +1065,634 @@ describe("ofetch", () => {
     expect(race).to.equal("fast");
   });
 
+  it("retry honors Retry-After header", async () => {
+    const retryAfter: (number | undefined)[] = [];
+    await $fetch(getURL("429?retryAfter=2"), {
+      retry: 1,
+      retryDelay: (context) => {
+        retryAfter.push(context.retryAfter);
+        return 1;
+      },
+    }).catch(() => {});
+    expect(retryAfter).toEqual([2000]);
+
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    await $fetch(getURL(`429?retryAfter=${encodeURIComponent(date)}`), {
+      retry: 1,
+      maxRetryDelay: 10,
+      retryDelay: (context) => {
+        retryAfter.push(context.retryAfter);
+        return 1;
+      },
+    }).catch(() => {});
+    expect(retryAfter).toEqual([2000, 10]);
+  });
+
+  it("uses rate limit reset headers only when the quota is used up", () => {
+    const reset = { "x-ratelimit-reset": String(Date.now() / 1000 + 3600) };
+    expect(
+      getRetryAfter(new Response("", { status: 500, headers: reset }))
+    ).toBeUndefined();
+    expect(
+      getRetryAfter(new Response("", { status: 429, headers: reset }))
+    ).toBeGreaterThan(3_500_000);
+    expect(
+      getRetryAfter(
+        new Response("", {
+          status: 503,
+          headers: { "ratelimit-remaining": "0", "ratelimit-reset": "5" },
+        })
+      )
+    ).toBe(5000);
+    expect(
+      getRetryAfter(
+        new Response("", {
+          status: 503,
+          headers: { "retry-after": "2", "ratelimit-reset": "5" },
+        })
+      )
+    ).toBe(2000);
+  });
+
+  it("caps server requested retry delays by default", async () => {
+    const retryAfter: (number | undefined)[] = [];
+    await $fetch(getURL("429?retryAfter=3600"), {
+      retry: 1,
+      retryDelay: (context) => {
+        retryAfter.push(context.retryAfter);
+        return 1;
+      },
+    }).catch(() => {});
+    expect(retryAfter).toEqual([60_000]);
+  });
+
+  it("retry waits for Retry-After capped by maxRetryDelay", async () => {
+    const start = Date.now();
+    const error = await $fetch(getURL("429?retryAfter=60"), {
+      retry: 1,
+      maxRetryDelay: 50,
+    }).catch((error) => error);
+    expect(error.status).toBe(429);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it("retry exposes attempt and elapsed time", async () => {
+    const attempts: number[] = [];
+    let elapsed = 0;
+    await $fetch(getURL("408"), {
+      retry: 3,
+      retryDelay: (context) => {
+        attempts.push(context.attempt);
+        elapsed = context.elapsed;
+        return 10;
+      },
+    }).catch(() => {});
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(elapsed).toBeGreaterThanOrEqual(20);
+  });
+
+  it("retry with backoff strategy", async () => {
+    const start = Date.now();
+    await $fetch(getURL("408"), {
+      retry: 2,
+      retryDelay: { strategy: "exponential", base: 20, factor: 3 },
+    }).catch(() => {});
+    // 20 + 60
+    expect(Date.now() - start).toBeGreaterThanOrEqual(75);
+
+    expect(getBackoffDelay("exponential", 3)).toBe(2000);
+    expect(getBackoffDelay({ strategy: "exponential", max: 1000 }, 5)).toBe(
+      1000
+    );
+    expect(getBackoffDelay({ strategy: "linear", base: 100 }, 3)).toBe(300);
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect(
+        getBackoffDelay({ strategy: "full-jitter", base: 100 }, attempt)
+      ).toBeLessThanOrEqual(100 * 2 ** (attempt - 1));
+      const delay = getBackoffDelay(
+        { strategy: "decorrelated-jitter", base: 100 },
+        attempt,
+        200
+      );
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(600);
+    }
+  });
+
+  it("retry with custom shouldRetry", async () => {
+    const shouldRetry = vi.fn(() => false);
+    await $fetch(getURL("408"), { retry: 3, shouldRetry }).catch(() => {});
+    expect(shouldRetry).toHaveBeenCalledOnce();
+
+    let calls = 0;
+    await $fetch(getURL("403"), {
+      retry: 2,
+      shouldRetry: (context) => {
+        calls++;
+        return context.response?.status === 403;
+      },
+    }).catch(() => {});
+    expect(calls).toBe(2);
+  });
+
+  it("classifies network errors", async () => {
+    const kinds: string[] = [];
+    // 获取一个没有被监听的端口
+    const server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    await new Promise((resolve) => server.close(resolve));
+
+    const error = await $fetch(`http://127.0.0.1:${port}`, {
+      retry: 1,
+      shouldRetry: (context) => {
+        kinds.push(getFetchErrorKind(context.error));
+        return false;
+      },
+    }).catch((error) => error);
+    expect(error.response).toBeUndefined();
+    expect(kinds).toEqual(["connection"]);
+
+    const fetchFailed = (code: string) =>
+      new TypeError("fetch failed", {
+        cause: Object.assign(new Error(code), { code }),
+      });
+    expect(getFetchErrorKind(fetchFailed("ECONNRESET"))).toBe("connection");
+    expect(getFetchErrorKind(fetchFailed("ENOTFOUND"))).toBe("dns");
+    expect(getFetchErrorKind(fetchFailed("UND_ERR_HEADERS_TIMEOUT"))).toBe(
+      "timeout"
+    );
+    expect(getFetchErrorKind(fetchFailed("CERT_HAS_EXPIRED"))).toBe("tls");
+    expect(getFetchErrorKind(new Error("unknown"))).toBe("unknown");
+  });
+
+  it("does not retry tls errors by default", async () => {
+    const tlsError = new TypeError("fetch failed", {
+      cause: Object.assign(new Error("CERT_HAS_EXPIRED"), {
+        code: "CERT_HAS_EXPIRED",
+      }),
+    });
+    fetch.mockRejectedValueOnce(tlsError);
+    const error = await $fetch(getURL("ok"), { retry: 2 }).catch(
+      (error_) => error_
+    );
+    expect(error.cause).toBe(tlsError);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("calls onRetry hook", async () => {
+    const retries: number[][] = [];
+    const onRequest = vi.fn();
+    await $fetch(getURL("408"), {
+      retry: 2,
+      retryDelay: 5,
+      onRequest: ({ attempt }) => onRequest(attempt),
+      onRetry: ({ attempt, remainingRetries, retryDelay }) => {
+        retries.push([attempt, remainingRetries, retryDelay]);
+      },
+    }).catch(() => {});
+    expect(retries).toEqual([
+      [1, 1, 5],
+      [2, 0, 5],
+    ]);
+    expect(onRequest.mock.calls).toEqual([[1], [2], [3]]);
+  });
+
+  it("onRetry hook can cancel retry", async () => {
+    const onRequest = vi.fn();
+    const error = await $fetch(getURL("408"), {
+      retry: 3,
+      onRequest,
+      onRetry: ({ cancelRetry }) => cancelRetry(),
+    }).catch((error_) => error_);
+    expect(error.status).toBe(408);
+    expect(onRequest).toHaveBeenCalledOnce();
+  });
+
+  it("adds idempotency key for retried mutations", async () => {
+    const keys: (string | null)[] = [];
+    await $fetch(getURL("408"), {
+      method: "POST",
+      body: { amount: 42 },
+      idempotencyKey: true,
+      onRequest: ({ options }) => {
+        keys.push(options.headers.get("idempotency-key"));
+      },
+    }).catch(() => {});
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toMatch(/^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-/);
+    expect(keys[1]).toBe(keys[0]);
+
+    const { headers } = await $fetch(getURL("post"), {
+      method: "POST",
+      body: {},
+      idempotencyKey: () => "custom-key",
+    });
+    expect(headers["idempotency-key"]).toBe("custom-key");
+
+    const echo = await $fetch(getURL("echo"), { idempotencyKey: true });
+    expect(echo.headers["idempotency-key"]).toBeUndefined();
+  });
+
+  it("circuit breaker fails fast while open", async () => {
+    const onStateChange = vi.fn();
+    const _fetch = $fetch.create(
+      { retry: 0 },
+      {
+        circuitBreaker: {
+          failureThreshold: 2,
+          resetTimeout: 50,
+          onStateChange,
+        },
+      }
+    );
+    const origin = new URL(listener.url).origin;
+
+    await _fetch(getURL("408")).catch(() => {});
+    expect(_fetch.circuitBreaker?.getState(origin)).toBe("closed");
+    await _fetch(getURL("408")).catch(() => {});
+    expect(_fetch.circuitBreaker?.getState(origin)).toBe("open");
+
+    fetch.mockClear();
+    const error = await _fetch(getURL("ok")).catch((error_) => error_);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.request).toBe(getURL("ok"));
+    expect(fetch).not.toHaveBeenCalled();
+
+    // 派生的实例共享熔断器
+    await expect(_fetch.create({})(getURL("ok"))).rejects.toThrow(
+      CircuitOpenError
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(_fetch.circuitBreaker?.getState(origin)).toBe("half-open");
+    expect(await _fetch(getURL("ok"))).toBe("ok");
+    expect(_fetch.circuitBreaker?.getStates()).toEqual({ [origin]: "closed" });
+
+    expect(onStateChange.mock.calls.map(([event]) => event.state)).toEqual([
+      "open",
+      "half-open",
+      "closed",
+    ]);
+  });
+
+  it("hedges slow GET requests", async () => {
+    hedgeCount = 0;
+    const start = Date.now();
+    const { count } = await $fetch(getURL("hedge"), { hedge: 50 });
+    expect(count).toBe(2);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(Date.now() - start).toBeLessThan(900);
+
+    // 非幂等的请求不会对冲
+    fetch.mockClear();
+    hedgeCount = 1;
+    await $fetch(getURL("hedge"), { method: "POST", hedge: 50 });
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("hedged requests still abort while reading the body", async () => {
+    const start = Date.now();
+    const error = await $fetch(getURL("stall"), {
+      hedge: 1000,
+      timeout: { total: 100 },
+      retry: 0,
+    }).catch((error_) => error_);
+    expect(Date.now() - start).toBeLessThan(900);
+    expect(error.cause).toBeInstanceOf(TimeoutError);
+    expect(error.cause.type).toBe("total");
+  });
+
+  it("hedged requests remove listeners from a reused signal", async () => {
+    const controller = new AbortController();
+    const addEventListener = vi.spyOn(controller.signal, "addEventListener");
+    const removeEventListener = vi.spyOn(
+      controller.signal,
+      "removeEventListener"
+    );
+    for (let i = 0; i < 3; i++) {
+      await $fetch(getURL("ok"), { hedge: 1000, signal: controller.signal });
+    }
+    const stream = await $fetch(getURL("ndjson"), {
+      hedge: 1000,
+      signal: controller.signal,
+      responseType: "stream",
+    });
+    // 读取响应体时仍然可以中断
+    expect(removeEventListener).toHaveBeenCalledTimes(3);
+    await new Response(stream).text();
+    expect(addEventListener).toHaveBeenCalledTimes(4);
+    expect(removeEventListener).toHaveBeenCalledTimes(4);
+  });
+
+  it("caches fresh responses", async () => {
+    const storage = new Map();
+    const _fetch = $fetch.create({}, { cache: { storage } });
+    const url = getURL("cached?maxAge=60");
+
+    const first = await _fetch(url);
+    // 等待后台保存响应体
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(storage.has(url)).toBe(true);
+
+    fetch.mockClear();
+    expect(await _fetch(url)).toEqual(first);
+    expect(await _fetch.create({})(url)).toEqual(first);
+    expect(fetch).not.toHaveBeenCalled();
+
+    // 请求的 no-cache 会跳过新鲜的缓存并重新验证
+    const response = await _fetch.raw(url, {
+      headers: { "cache-control": "no-cache" },
+    });
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(response._data).toEqual(first);
+  });
+
+  it("does not cache responses cancelled by the caller", async () => {
+    const storage = new Map();
+    const _fetch = $fetch.create({}, { cache: { storage } });
+    largeDone = false;
+    const stream = await _fetch(getURL("large"), { responseType: "stream" });
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+    await vi.waitFor(() => expect(largeDone).toBe(true));
+    expect(largeChunks).toBeLessThan(200);
+    expect(storage.size).toBe(0);
+  });
+
+  it("revalidates stale responses with ETag", async () => {
+    const _fetch = $fetch.create({}, { cache: true });
+    const url = getURL("cached");
+
+    const first = await _fetch(url);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const response = await _fetch.raw(url);
+    expect(response.status).toBe(200);
+    expect(response._data).toEqual(first);
+
+    // 没有缓存时，304 响应没有响应体
+    const uncached = await $fetch.raw(url, {
+      headers: { "if-none-match": '"v1"' },
+    });
+    expect(uncached.status).toBe(304);
+    expect(uncached._data).toBeUndefined();
+  });
+
+  it("serves stale responses while revalidating", async () => {
+    const _fetch = $fetch.create({}, { cache: true });
+    const url = getURL("cached?stale=stale-while-revalidate%3D60");
+    const first = await _fetch(url);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const onRevalidate = vi.fn();
+    fetch.mockClear();
+    expect(await _fetch(url, { onRevalidate })).toEqual(first);
+    await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledOnce());
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(onRevalidate.mock.calls[0][0].revalidatedResponse.status).toBe(200);
+  });
+
+  it("serves stale responses on error", async () => {
+    const _fetch = $fetch.create(
+      { retry: 1 },
+      { cache: { staleIfError: 60_000 } }
+    );
+    const url = getURL("cached?maxAge=0");
+    const first = await _fetch(url);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    cacheError = true;
+    try {
+      fetch.mockClear();
+      const onResponse = vi.fn();
+      expect(await _fetch(url, { onResponse })).toEqual(first);
+      // 重试用完之后才使用过期响应
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(onResponse).toHaveBeenCalledTimes(3);
+
+      // 没有缓存时仍然抛出错误
+      await expect(_fetch(getURL("cached?maxAge=1"))).rejects.toThrow("503");
+    } finally {
+      cacheError = false;
+    }
+  });
+
+  it("dedupes identical in-flight requests", async () => {
+    const _fetch = $fetch.create({ baseURL: listener.url }, { dedupe: true });
+    fetch.mockClear();
+    const [a, b, c] = await Promise.all([
+      _fetch("dedupe", { query: { id: 1 } }),
+      _fetch(getURL("dedupe?id=1")),
+      _fetch("dedupe", { query: { id: 1 }, headers: { "x-user": "other" } }),
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(a).toEqual(b);
+    expect(a).not.toBe(b);
+    expect(c).not.toEqual(a);
+
+    // 中断一个调用者不会影响其他调用者
+    fetch.mockClear();
+    const controller = new AbortController();
+    const aborted = _fetch("dedupe", { signal: controller.signal });
+    const other = _fetch("dedupe");
+    controller.abort();
+    await expect(aborted).rejects.toThrow("aborted");
+    expect(await other).toMatchObject({ count: expect.any(Number) });
+    expect(fetch).toHaveBeenCalledOnce();
+
+    // 请求体不同的请求不会合并
+    const posts = $fetch.create({}, { dedupe: { methods: ["POST"] } });
+    fetch.mockClear();
+    await Promise.all([
+      posts(getURL("dedupe"), { method: "POST", body: { id: 1 } }),
+      posts(getURL("dedupe"), { method: "POST", body: { id: 1 } }),
+      posts(getURL("dedupe"), { method: "POST", body: { id: 2 } }),
+      posts(getURL("dedupe"), {
+        method: "POST",
+        body: new Blob(["a"]),
+      }),
+      posts(getURL("dedupe"), {
+        method: "POST",
+        body: new Blob(["a"]),
+      }),
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    // 只有一个调用者时，读取响应体期间中断会中断连接
+    const streamController = new AbortController();
+    const stream = await _fetch(getURL("ndjson?count=100"), {
+      responseType: "stream",
+      signal: streamController.signal,
+    });
+    const reader = stream.getReader();
+    await reader.read();
+    streamController.abort();
+    await expect(reader.read()).rejects.toThrow("aborted");
+    await vi.waitFor(() => expect(ndjsonClosed).toBe(true));
+  });
+
+  it("dedupes before waiting for the queue and rate limit", async () => {
+    const _fetch = $fetch.create(
+      {},
+      {
+        dedupe: true,
+        concurrency: 1,
+        rateLimit: { limit: 1, interval: 500 },
+      }
+    );
+    fetch.mockClear();
+    const start = Date.now();
+    const results = await Promise.all([
+      _fetch(getURL("dedupe")),
+      _fetch(getURL("dedupe")),
+      _fetch(getURL("dedupe")),
+    ]);
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(results[1]).toEqual(results[0]);
+    expect(results[2]).toEqual(results[0]);
+    expect(Date.now() - start).toBeLessThan(400);
+  });
+
+  it("limits concurrency with a priority queue", async () => {
+    const _fetch = $fetch.create({}, { concurrency: 1 });
+    const queue = _fetch.queue!;
+    dedupeCount = 0;
+
+    const controller = new AbortController();
+    const requests = [
+      _fetch(getURL("dedupe")),
+      _fetch(getURL("dedupe"), { priority: "low" }),
+      _fetch(getURL("dedupe"), { signal: controller.signal }),
+      _fetch(getURL("dedupe"), { priority: 5 }),
+    ];
+    await vi.waitFor(() => expect(queue.pending).toBe(3));
+    expect(queue.active).toBe(1);
+    expect(queue.getStats(new URL(listener.url).origin)).toEqual({
+      pending: 3,
+      active: 1,
+    });
+
+    // 排队时中断的请求会从队列中移除
+    controller.abort();
+    await expect(requests[2]).rejects.toThrow("aborted");
+    expect(queue.pending).toBe(2);
+
+    expect(await Promise.all([requests[0], requests[1], requests[3]])).toEqual([
+      { count: 1 },
+      { count: 3 },
+      { count: 2 },
+    ]);
+    expect(queue).toMatchObject({ pending: 0, active: 0 });
+  });
+
+  it("keeps the queue slot with the shared request", async () => {
+    const _fetch = $fetch.create({}, { dedupe: true, concurrency: 1 });
+    const queue = _fetch.queue!;
+
+    // 发起共享请求的调用者在排队时中断，其他调用者仍然会得到响应
+    const busy = _fetch(getURL("dedupe?busy=1"));
+    const controller = new AbortController();
+    const starter = _fetch(getURL("dedupe"), { signal: controller.signal });
+    const other = _fetch(getURL("dedupe"));
+    await vi.waitFor(() => expect(queue.pending).toBe(1));
+    controller.abort();
+    await expect(starter).rejects.toThrow("aborted");
+    await busy;
+    expect(await other).toMatchObject({ count: expect.any(Number) });
+    expect(queue).toMatchObject({ pending: 0, active: 0 });
+
+    // 发起共享请求的调用者在请求发送后中断，名额在共享的请求完成后才释放
+    const startedController = new AbortController();
+    const started = _fetch(getURL("dedupe"), {
+      signal: startedController.signal,
+    });
+    const waiting = _fetch(getURL("dedupe"));
+    await vi.waitFor(() => expect(queue.active).toBe(1));
+    startedController.abort();
+    await expect(started).rejects.toThrow("aborted");
+    expect(queue.active).toBe(1);
+    await waiting;
+    expect(queue).toMatchObject({ pending: 0, active: 0 });
+    expect(await _fetch(getURL("ok"))).toBe("ok");
+  });
+
+  it("holds the queue slot until a streamed body is read", async () => {
+    const _fetch = $fetch.create({}, { concurrency: 1 });
+    const stream = await _fetch(getURL("ndjson"), { responseType: "stream" });
+    expect(_fetch.queue!.active).toBe(1);
+    expect(await new Response(stream).text()).toContain('{"id":3}');
+    expect(_fetch.queue!.active).toBe(0);
+
+    // 取消响应体时也会释放
+    const cancelled = await _fetch(getURL("ndjson"), {
+      responseType: "stream",
+    });
+    await cancelled.cancel();
+    expect(_fetch.queue!.active).toBe(0);
+  });
+
+  it("does not count queued requests as circuit breaker failures", async () => {
+    const _fetch = $fetch.create(
+      {},
+      { concurrency: 1, circuitBreaker: { failureThreshold: 2 } }
+    );
+    fetch.mockClear();
+    const first = _fetch(getURL("dedupe"));
+    const queued = [1, 2].map(() =>
+      _fetch(getURL("dedupe"), { timeout: { total: 10 }, retry: 0 })
+    );
+    for (const request of queued) {
+      await expect(request).rejects.toThrow("timeout");
+    }
+    await first;
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(_fetch.circuitBreaker!.getState(new URL(listener.url).origin)).toBe(
+      "closed"
+    );
+  });
+
+  it("rate limits requests with a token bucket", async () => {
+    const _fetch = $fetch.create(
+      {},
+      { rateLimit: { limit: 1, interval: 100 } }
+    );
+    const start = Date.now();
+    await Promise.all([
+      _fetch(getURL("ok")),
+      _fetch(getURL("ok")),
+      // 派生的实例共享令牌桶
+      _fetch.create({})(getURL("ok")),
+    ]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+
+    // 等待令牌时中断的请求不会发送
+    fetch.mockClear();
+    const controller = new AbortController();
+    const request = _fetch(getURL("ok"), { signal: controller.signal });
+    controller.abort();
+    await expect(request).rejects.toThrow("aborted");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("adapts rate limit to remaining quota", async () => {
+    const _fetch = $fetch.create(
+      {},
+      { rateLimit: { limit: 100, interval: 200, adaptive: true } }
+    );
+    await _fetch(getURL("ratelimit?remaining=5"));
+    let start = Date.now();
+    await _fetch(getURL("ratelimit?remaining=0"));
+    expect(Date.now() - start).toBeLessThan(100);
+
+    // 配额用完后暂停发送，直到配额重置
+    start = Date.now();
+    await _fetch(getURL("ratelimit?remaining=5"));
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+  });
+
   it("abort with retry", () => {
     const controller = new AbortController();
     async function abortHandle() {
@@ -403,6 +1742,97 @@ describe("ofetch", () => {
     });
   });
 
+  it("structured headers timeout", async () => {
+    const error = await $fetch(getURL("timeout"), {
+      timeout: { headers: 100 },
+      retry: 0,
+    }).catch((error_) => error_);
+    expect(error.cause).toBeInstanceOf(TimeoutError);
+    expect(error.cause.type).toBe("headers");
+  });
+
+  it("aborting on body idle timeout", async () => {
+    const start = Date.now();
+    const error = await $fetch(getURL("stall"), {
+      timeout: { body: 100 },
+      retry: 0,
+    }).catch((error_) => error_);
+    expect(Date.now() - start).toBeLessThan(900);
+    expect(error.status).toBe(200);
+    expect(error.cause).toBeInstanceOf(TimeoutError);
+    expect(error.cause.type).toBe("body");
+  });
+
+  it("total timeout applies across retries", async () => {
+    const start = Date.now();
+    const error = await $fetch(getURL("timeout"), {
+      timeout: { headers: 60, total: 150 },
+      retry: 10,
+    }).catch((error_) => error_);
+    expect(Date.now() - start).toBeLessThan(900);
+    expect(fetch.mock.calls.length).toBeLessThanOrEqual(3);
+    expect(error.cause).toBeInstanceOf(TimeoutError);
+
+    const error2 = await $fetch(getURL("408"), {
+      timeout: { total: 100 },
+      retry: 10,
+      retryDelay: 40,
+    }).catch((error_) => error_);
+    expect(error2.status).toBe(408);
+    expect(Date.now() - start).toBeLessThan(1200);
+  });
+
+  it("combines signal with timeout", async () => {
+    const controller = new AbortController();
+    const error = await $fetch(getURL("timeout"), {
+      signal: controller.signal,
+      timeout: 100,
+      retry: 0,
+    }).catch((error_) => error_);
+    expect(error.cause).toBeInstanceOf(TimeoutError);
+    expect(controller.signal.aborted).toBe(false);
+  });
+
+  it("removes listeners from a reused signal after each request", async () => {
+    // 模拟不支持 AbortSignal.any 的运行时
+    const any = vi.spyOn(AbortSignal, "any").mockImplementation(() => {
+      throw new TypeError("AbortSignal.any is not supported");
+    });
+    const controller = new AbortController();
+    const addEventListener = vi.spyOn(controller.signal, "addEventListener");
+    const removeEventListener = vi.spyOn(
+      controller.signal,
+      "removeEventListener"
+    );
+    try {
+      await $fetch(getURL("ok"), { signal: controller.signal, timeout: 1000 });
+      const stream = await $fetch(getURL("ndjson"), {
+        signal: controller.signal,
+        timeout: 1000,
+        responseType: "stream",
+      });
+      // 流式的响应体读取完成之前，用户的 signal 仍然可以中断请求
+      expect(removeEventListener).toHaveBeenCalledOnce();
+      await new Response(stream).text();
+    } finally {
+      any.mockRestore();
+    }
+    expect(addEventListener).toHaveBeenCalledTimes(2);
+    expect(removeEventListener).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry user abort when timeout is set", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const error = await $fetch(getURL("timeout"), {
+      signal: controller.signal,
+      timeout: 1000,
+      retry: 3,
+    }).catch((error_) => error_);
+    expect(error.cause.name).toBe("AbortError");
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
   it("deep merges defaultOptions", async () => {
     const _customFetch = $fetch.create({
       query: {